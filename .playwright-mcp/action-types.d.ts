@@ -1,13 +1,303 @@
-import type { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+// Published verbatim as .playwright-mcp/action-types.d.ts (npm run build:action-types), so declarations only
+
+import type { Browser, BrowserContext, BrowserContextOptions, FrameLocator, Locator, Page } from 'playwright';
 import type { CallToolResult, LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
 import type { z } from 'zod';
 
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
+/**
+ * A network interception rule installed with context.route().
+ * With status/body/bodyFile the request is fulfilled, with abort it fails, and with
+ * only delay it continues to the network after waiting.
+ */
+export interface NetworkMockRule {
+  id: string;
+  /** URL glob (e.g. "**\/api/orders*") or a regular expression written as "/pattern/flags". */
+  url: string;
+  /** HTTP method to match (default: any). */
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  /** Response body; objects are sent as JSON. */
+  body?: unknown;
+  /** Absolute path of a file whose content is sent as the body. */
+  bodyFile?: string;
+  contentType?: string;
+  /** Abort the request, optionally with a Playwright error code such as "failed" or "timedout". */
+  abort?: boolean | string;
+  /** Milliseconds to wait before fulfilling, aborting or continuing. */
+  delay?: number;
+  /** Only handle this many requests, then fall through (default: unlimited). */
+  times?: number;
+  /** Number of requests the rule handled so far. */
+  hits: number;
+}
+
+/** A console message, page error or network event captured from one of the session's pages */
+export interface DebugEvent {
+  /** Sequence number, increasing for the lifetime of the session. */
+  seq: number;
+  timestamp: string;
+  /** Tool call the event happened during (see DebugLog.steps). */
+  step: number;
+  type: 'console' | 'pageerror' | 'request' | 'response' | 'requestfailed';
+  /** Console message type (log, warning, error, ...). */
+  level?: string;
+  text?: string;
+  /** Request URL, or the script location for console messages. */
+  url?: string;
+  method?: string;
+  status?: number;
+  resourceType?: string;
+  /** Error text of a failed request. */
+  failure?: string;
+}
+
+/** Bounded ring buffer of debug events; the oldest events are dropped when it is full */
+export interface DebugLog {
+  events: DebugEvent[];
+  capacity: number;
+  /** Events dropped because the buffer was full. */
+  dropped: number;
+  nextSeq: number;
+  /** Current step; incremented for every tool call that uses the session. */
+  step: number;
+  /** Recent steps with the tool that ran them, so events can be related to calls. */
+  steps: Array<{ step: number; tool: string; startedAt: string }>;
+}
+
+/** A file downloaded by one of the session's pages, saved under the downloads folder */
+export interface DownloadRecord {
+  id: string;
+  /** File name suggested by the browser. */
+  name: string;
+  /** Absolute path the file was saved to. */
+  path: string;
+  size: number;
+  mimeType: string;
+  /** URL the download came from. */
+  url: string;
+  startedAt: string;
+  savedAt: string;
+  /** Tool call (debug step) that triggered the download. */
+  step: number;
+  /** Set when the download failed or was canceled; nothing was saved then. */
+  error?: string;
+}
+
+/** How JavaScript dialogs (alert, confirm, prompt, beforeunload) are answered */
+export interface DialogPolicy {
+  action: 'accept' | 'dismiss';
+  /** Text entered into prompt() dialogs when accepting (default: the prompt's default value). */
+  promptText?: string;
+}
+
+/** A JavaScript dialog one of the session's pages opened, and how it was answered */
+export interface DialogRecord {
+  type: string;
+  message: string;
+  /** Default value of a prompt() dialog. */
+  defaultValue?: string;
+  handled: 'accepted' | 'dismissed';
+  /** Text entered into a prompt() dialog. */
+  promptText?: string;
+  url: string;
+  timestamp: string;
+  /** Tool call (debug step) during which the dialog appeared. */
+  step: number;
+}
+
+/** An assert_* command whose expectation did not hold */
+export interface AssertionFailure {
+  /** Step label of the assertion, e.g. 4 or "3.2.1". */
+  step: number | string;
+  /** Command type, e.g. assert_text. */
+  assertion: string;
+  /** Element the assertion looked at, if any. */
+  selector?: string;
+  /** What was expected, e.g. `contains "Welcome"` or `count >= 3`. */
+  expected: string;
+  /** What was found when the timeout ran out. */
+  actual: unknown;
+  /** Soft failures are recorded and the run goes on; hard ones fail the step. */
+  soft: boolean;
+}
+
+/** A HAR file whose responses are served to the session with context.routeFromHAR() */
+export interface HarReplay {
+  /** Absolute path of the .har (or .zip) file. */
+  path: string;
+  /** Requests without a matching HAR entry go to the network ('fallback') or fail ('abort'). */
+  notFound: 'fallback' | 'abort';
+  /** Only serve requests matching this URL glob or "/regex/" from the HAR. */
+  url?: string;
+}
+
+/** A HAR recording in progress; the file is written when the recording context closes */
+export interface HarRecording {
+  /** Absolute path the HAR file is written to. */
+  path: string;
+  startedAt: string;
+  /** Only requests matching this URL glob or "/regex/" are recorded. */
+  urlFilter?: string;
+}
+
+/** Playwright tracing running on the session's context */
+export interface TraceRecording {
+  startedAt: string;
+  /** Title shown in the trace viewer. */
+  title?: string;
+}
+
+export interface ActionSession {
+  /** Name of the browser session the action runs against (defaults to "default"). */
+  name: string;
+  /** Browser engine or channel the session was launched with. */
+  browserName: string;
+  /** Whether the session's browser runs headless. */
+  headless: boolean;
+  /** True when connected to an already running browser (CDP or websocket); closing only disconnects. */
+  attached?: boolean;
+  /** ISO timestamp of when the session was launched. */
+  createdAt: string;
+  /** ISO timestamp of the last action that used the session. */
+  lastUsedAt: string;
+  /** The session's current context; replaced by recreateContext(). */
+  context: BrowserContext;
+  /** The session's active tab; can change mid-action when a popup opens. */
+  page: Page;
+  /** Options the session's context was created with (storageState excluded). */
+  contextOptions: BrowserContextOptions;
+  /**
+   * Set when this is a dedicated session created because an action's browser, headless
+   * or contextOptions requirements conflicted with the named session it was called with.
+   */
+  dedicatedFor?: string;
+  /** Name of the auth profile loaded into the context, if any. */
+  authProfile?: string;
+  /** Network mock rules; reinstalled automatically whenever the context is recreated. */
+  mockRules: NetworkMockRule[];
+  /** HAR file replayed in place of the network; reinstalled whenever the context is recreated. */
+  harReplay?: HarReplay;
+  /** Running HAR recording; recreating the context ends it (and writes the file). */
+  harRecording?: HarRecording;
+  /** Absolute folder this session's downloads are saved to (a subfolder of the configured downloads folder). */
+  downloadsDir: string;
+  /** Downloads saved so far, oldest first (bounded). */
+  downloads: DownloadRecord[];
+  /** How dialogs are answered; changed by --dialog-policy, the dialogs input or set_dialog_policy. */
+  dialogPolicy: DialogPolicy;
+  /** Dialogs seen so far (most recent last, bounded). */
+  dialogs: DialogRecord[];
+  /** Console, page error and network events captured from every page of the session. */
+  debugLog: DebugLog;
+  /** Running trace; restarted on the new context (dropping what was traced so far) when the context is recreated. */
+  tracing?: TraceRecording;
+  /** Make the given page the session's active tab for subsequent actions. */
+  activatePage: (page: Page) => void;
+  /**
+   * Replace the session's context with a new one built from contextOptions plus overrides,
+   * reopening the last URL in the new tab. Use session.context/session.page afterwards.
+   */
+  recreateContext: (overrides?: BrowserContextOptions) => Promise<BrowserContext>;
+  /** Close the session's browser; the next action using this session name launches a new one. */
+  close: () => Promise<void>;
+}
+
 export interface ActionContext<TInput = Record<string, unknown>> {
   input: TInput;
   browser: Browser;
   context: BrowserContext;
   page: Page;
+  /** The named browser session that owns browser, context and page. */
+  session: ActionSession;
   logger: (message: string, level?: LoggingLevel) => void | Promise<void>;
+  /** Environment variables loaded from .env file */
+  env: Record<string, string | undefined>;
+  /** Helper to interpolate secrets in strings using ${{VAR_NAME}} syntax */
+  interpolateSecrets: (text: string) => string;
+  /** Base directory (repository root) */
+  baseDir: string;
+}
+
+/** Fields every browser command accepts, whatever its type */
+export interface CommandBase {
+  type: string;
+  /** Shown in logs instead of the command type. */
+  description?: string;
+  /** Iframe selector, or chain of nested iframe selectors (outermost first), the command's selectors resolve in. */
+  frame?: string | string[];
+  /** Milliseconds each Playwright call of the command may take (default: the run's default, else Playwright's 30000). */
+  timeout?: number;
+  /** How often to run the command again after it fails (default: the run's default, else 0). */
+  retries?: number;
+  /** Milliseconds to wait between attempts (default: the run's default, else 1000). */
+  retryDelay?: number;
+  /** What a failure does to the rest of the run (default: the run's default). */
+  onError?: OnErrorPolicy;
+}
+
+/** stop ends the run at a failed command, continue goes on with the next one, screenshot-and-stop saves a screenshot first */
+export type OnErrorPolicy = 'stop' | 'continue' | 'screenshot-and-stop';
+
+/** Values shared by the commands of one browser-session call or shortcut run */
+export interface CommandRunState {
+  /** Index of the next download wait_for_download hands out. */
+  nextDownload: number;
+  /** Variables commands can use as {{name}}, such as the current for_each item. */
+  vars: Record<string, unknown>;
+  /** Absolute paths of the shortcut files being run, outermost first (see the call command). */
+  shortcuts: string[];
+  /** Soft assertions that failed so far; hard failures are reported by the step that threw them. */
+  assertionFailures: AssertionFailure[];
+}
+
+/** What a command's run() gets besides the command itself */
+export interface CommandContext {
+  page: Page;
+  /** The page, or the iframe the command's `frame` points to. */
+  scope: Page | FrameLocator;
+  session: ActionSession;
+  baseDir: string;
+  logger: (message: string, level?: LoggingLevel) => void | Promise<void>;
+  /** Replace ${{VAR_NAME}} placeholders with environment variables. */
+  interpolateSecrets: (text: string) => string;
+  /** Resolve a selector inside scope with the shared strategies (CSS, role:, testid:, label:, placeholder:, title:, text). */
+  locate: (selector: string) => Locator;
+  state: CommandRunState;
+  /** Label of the running step: 3 at the top level, "3.2.1" inside blocks. */
+  step: number | string;
+  /** Milliseconds each Playwright call of the command may take, when the command or its run sets a timeout. */
+  timeout?: number;
+  /**
+   * Run a nested block of (already validated) commands; their results are reported under this step
+   * as steps labelled "<step>.<label>.<n>" (or "<step>.<n>" without a label). Throws when one fails.
+   */
+  runBlock: (commands: unknown[], label?: number | string) => Promise<void>;
+}
+
+/**
+ * A command type usable in browser-session calls and shortcut files.
+ * Built-in commands live in src/builtin-commands.ts; actions can add more via `commands`.
+ */
+export interface CommandDefinition<TShape extends z.ZodRawShape = z.ZodRawShape> {
+  /** Value of the command's `type` field, in snake_case. */
+  type: string;
+  description?: string;
+  /** Fields of the command besides type, description and frame. */
+  schema: TShape;
+  /** Fields holding nested command lists; they are validated with the command and run with ctx.runBlock(). */
+  blocks?: string[];
+  /**
+   * Lets the command store a value as a {{variable}} with saveAs (and an optional regex pattern):
+   * picks the value to store from what run() returned.
+   */
+  capture?: (result: any, command: z.infer<z.ZodObject<TShape>> & CommandBase) => unknown;
+  /** Checks across fields the schema cannot express; a returned message rejects the command before anything runs. */
+  validate?: (command: z.infer<z.ZodObject<TShape>> & CommandBase) => string | undefined;
+  /** Perform the command; the returned value is reported as the step's result. */
+  run: (command: z.infer<z.ZodObject<TShape>> & CommandBase, ctx: CommandContext) => Promise<unknown> | unknown;
 }
 
 export interface ActionResponse {
@@ -29,13 +319,28 @@ export type InferActionInput<TSchema extends ActionInputSchema | undefined> =
       : Record<string, unknown>;
 
 export interface PlaywrightActionDefinition<TSchema extends ActionInputSchema | undefined = ActionInputSchema> {
+  /** Name that will be exposed as the MCP tool identifier. */
   name: string;
+  /** Optional human friendly name shown in clients. */
   title?: string;
+  /** Description used by models to understand what the action does. */
   description?: string;
-  browser?: 'chromium' | 'firefox' | 'webkit';
+  /** Which browser engine to spin up for the shortcut. Defaults to the CLI --browser (Chromium). */
+  browser?: BrowserEngine;
+  /** Whether the Playwright browser should run headless. Defaults to the CLI --headless flag. */
   headless?: boolean;
+  /** Browser context overrides that will be passed to browser.newContext(). */
   contextOptions?: BrowserContextOptions;
+  /**
+   * What to do when browser, headless or contextOptions conflict with an already running session:
+   * 'isolate' (default) runs the action in a dedicated "<session>:<variant>" session, 'fail' returns an error.
+   */
+  sessionConflict?: 'isolate' | 'fail';
+  /** Optional Zod schema describing the action arguments. */
   inputSchema?: TSchema;
+  /** Command types this action adds to browser-session and shortcuts, registered when the action loads. */
+  commands?: CommandDefinition<any>[];
+  /** The actual sequence of steps executed by the shortcut. */
   run: (
     ctx: ActionContext<InferActionInput<TSchema>>,
     helpers: { playwright: typeof import('playwright') }
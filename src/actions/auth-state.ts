@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import type { PlaywrightActionDefinition } from './types';
+import {
+  authProfilePath,
+  deleteAuthProfile,
+  listAuthProfiles,
+  saveAuthProfile,
+  useAuthProfile,
+} from '../auth-profiles';
+
+/**
+ * Save and restore authentication state (cookies + localStorage)
+ *
+ * Profiles are stored as Playwright storageState files under .playwright-mcp/auth/
+ * so a login only has to run through the UI once. Shortcuts can declare
+ * `requiresAuth: <profile>` to load a profile before their commands run.
+ */
+const authState: PlaywrightActionDefinition = {
+  name: 'auth-state',
+  title: 'Authentication State Profiles',
+  description: 'Save the current session\'s cookies and localStorage to a named profile under .playwright-mcp/auth/, load a saved profile into the session, list or delete profiles. Load a profile instead of repeating a UI login.',
+  inputSchema: z.object({
+    action: z.enum(['save', 'load', 'list', 'delete']).describe('save (store current state), load (restore a profile into the session), list (show saved profiles), delete (remove a profile)'),
+    profile: z.string().optional().describe('Profile name (e.g. admin, customer). Required for save, load and delete'),
+    expiresIn: z.number().positive().optional().describe('For save: minutes until the profile is considered expired (default: never)'),
+    maxAge: z.number().positive().optional().describe('For load: reject the profile if it was saved more than this many minutes ago'),
+  }),
+  async run(ctx) {
+    const { action, profile, expiresIn, maxAge } = ctx.input;
+
+    if (action === 'list') {
+      const profiles = await listAuthProfiles(ctx.baseDir);
+      ctx.logger(`🔐 ${profiles.length} auth profile(s) found`);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ success: true, action, profiles }, null, 2),
+        }],
+      };
+    }
+
+    if (!profile) {
+      throw new Error(`A profile name is required for action '${action}'`);
+    }
+
+    let result: Record<string, unknown> = {};
+
+    switch (action) {
+      case 'save': {
+        const state = await ctx.session.context.storageState();
+        const saved = await saveAuthProfile(ctx.baseDir, profile, state, expiresIn);
+        ctx.session.authProfile = profile;
+        ctx.logger(`💾 Saved auth profile "${profile}" (${saved.cookies.length} cookies, ${saved.origins.length} origins)`);
+        result = {
+          path: authProfilePath(ctx.baseDir, profile),
+          savedAt: saved.savedAt,
+          expiresAt: saved.expiresAt,
+          cookies: saved.cookies.length,
+          origins: saved.origins.length,
+        };
+        break;
+      }
+
+      case 'load': {
+        const { profile: loaded } = await useAuthProfile(ctx.session, ctx.baseDir, profile, { maxAgeMinutes: maxAge, force: true });
+        ctx.logger(`🔓 Loaded auth profile "${profile}" into session "${ctx.session.name}"`);
+        result = {
+          savedAt: loaded.savedAt,
+          expiresAt: loaded.expiresAt,
+          url: ctx.session.page.url(),
+        };
+        break;
+      }
+
+      case 'delete': {
+        const deleted = await deleteAuthProfile(ctx.baseDir, profile);
+        if (!deleted) {
+          throw new Error(`Auth profile "${profile}" not found`);
+        }
+        if (ctx.session.authProfile === profile) {
+          ctx.session.authProfile = undefined;
+        }
+        ctx.logger(`🗑️  Deleted auth profile "${profile}"`);
+        break;
+      }
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          action,
+          profile,
+          session: ctx.session.name,
+          ...result,
+        }, null, 2),
+      }],
+    };
+  },
+};
+
+export default authState;
@@ -1,63 +1,95 @@
 import { z } from 'zod';
-import type { PlaywrightActionDefinition } from './types';
+import type { DebugEvent, PlaywrightActionDefinition } from './types';
+import { clearDebugLog, queryDebugEvents } from '../debug-log';
 
 /**
  * Get debugging information from the browser
- * 
- * Returns console messages and network requests captured during the session.
- * Useful for debugging page behavior and API calls.
+ *
+ * Returns console messages, page errors and network requests captured during the session.
+ * Every page the server opens is listened to from the start, and events go into a bounded
+ * buffer per session. Each tool call is a step, so events can be narrowed to what one call caused.
  */
 const browserDebug: PlaywrightActionDefinition = {
   name: 'browser-debug',
   title: 'Browser Debug Info',
-  description: 'Get console messages and network requests from the current browser session',
+  description: 'Get console messages, page errors and network requests captured from every page of the current browser session. Filter by errors only, URL pattern, minimum HTTP status, or since a timestamp or step (every tool call is a step; the steps list shows which tool ran each one). Can clear the buffer.',
   inputSchema: z.object({
-    includeConsole: z.boolean().optional().describe('Include console messages (default: true)'),
-    includeNetwork: z.boolean().optional().describe('Include network requests (default: true)'),
-    onlyErrors: z.boolean().optional().describe('For console: only show error messages (default: false)'),
+    includeConsole: z.boolean().optional().describe('Include console messages and page errors (default: true)'),
+    includeNetwork: z.boolean().optional().describe('Include network responses and failed requests (default: true)'),
+    includeRequests: z.boolean().optional().describe('Also include outgoing request events, e.g. to spot requests that never got a response (default: false)'),
+    onlyErrors: z.boolean().optional().describe('Only console errors, page errors, failed requests and responses with status >= 400 (default: false)'),
+    urlPattern: z.string().optional().describe('Only network events whose URL matches this glob ("**/api/**"), /regex/ or substring'),
+    minStatus: z.number().int().optional().describe('Only responses with at least this HTTP status, e.g. 400'),
+    since: z.string().optional().describe('Only events at or after this ISO timestamp'),
+    sinceStep: z.number().int().optional().describe('Only events from this step (tool call) onwards'),
+    limit: z.number().int().positive().optional().describe('Return at most this many of the newest matching events (default: 100)'),
+    clear: z.boolean().optional().describe('Clear the buffer after returning the events (default: false)'),
+    includeMetrics: z.boolean().optional().describe('Include navigation and resource timing from the Performance API (default: false)'),
   }),
   async run(ctx) {
-    const { includeConsole = true, includeNetwork = true, onlyErrors = false } = ctx.input;
-    
+    const {
+      includeConsole = true,
+      includeNetwork = true,
+      includeRequests = false,
+      onlyErrors = false,
+      urlPattern,
+      minStatus,
+      since,
+      sinceStep,
+      limit = 100,
+      clear = false,
+      includeMetrics = false,
+    } = ctx.input;
+
     ctx.logger(`🔍 Gathering debug information...`);
 
     const page = ctx.page;
+    const log = ctx.session.debugLog;
+    const types: DebugEvent['type'][] = [
+      ...(includeConsole ? ['console', 'pageerror'] as const : []),
+      ...(includeNetwork ? ['response', 'requestfailed'] as const : []),
+      ...(includeNetwork && includeRequests ? ['request'] as const : []),
+    ];
+    const events = queryDebugEvents(log, { types, onlyErrors, urlPattern, minStatus, since, sinceStep, limit });
+
     const result: any = {
       url: page.url(),
+      session: ctx.session.name,
+      step: log.step,
+      steps: log.steps.filter(step => sinceStep === undefined || step.step >= sinceStep),
+      buffer: { size: log.events.length, capacity: log.capacity, dropped: log.dropped },
+      matched: events.length,
     };
-    
+
     if (includeConsole) {
-      // Note: Console messages need to be captured with page.on('console')
-      // This is a limitation - messages must be captured during session
-      ctx.logger(`⚠️  Console messages must be captured with listeners during the session`);
-      result.consoleNote = 'Console messages require capturing with page.on("console") during navigation';
+      result.console = events.filter(event => event.type === 'console' || event.type === 'pageerror');
     }
-    
+
     if (includeNetwork) {
-      // Same limitation for network requests
-      ctx.logger(`⚠️  Network requests must be captured with listeners during the session`);
-      result.networkNote = 'Network requests require capturing with page.on("request") during navigation';
+      result.network = events.filter(event => event.type !== 'console' && event.type !== 'pageerror');
     }
-    
-    // Alternative: Get current page content and resources
-    const content = await page.content();
-    const metrics = await page.evaluate(() => ({
-      performance: performance.getEntriesByType('navigation').map(e => ({
-        type: e.entryType,
-        duration: (e as any).duration,
-        loadEventEnd: (e as any).loadEventEnd,
-      })),
-      resources: performance.getEntriesByType('resource').map(e => ({
-        name: e.name,
-        type: (e as any).initiatorType,
-        duration: e.duration,
-      })),
-    }));
-    
-    result.pageMetrics = metrics;
-    result.contentLength = content.length;
-    
-    ctx.logger(`✅ Debug info gathered`);
+
+    if (includeMetrics) {
+      result.pageMetrics = await page.evaluate(() => ({
+        performance: performance.getEntriesByType('navigation').map(e => ({
+          type: e.entryType,
+          duration: (e as any).duration,
+          loadEventEnd: (e as any).loadEventEnd,
+        })),
+        resources: performance.getEntriesByType('resource').map(e => ({
+          name: e.name,
+          type: (e as any).initiatorType,
+          duration: e.duration,
+        })),
+      }));
+    }
+
+    if (clear) {
+      result.cleared = clearDebugLog(log);
+      ctx.logger(`🧹 Cleared ${result.cleared} buffered event(s)`);
+    }
+
+    ctx.logger(`✅ Debug info gathered (${events.length} event(s))`);
 
     return {
       content: [{
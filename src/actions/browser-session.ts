@@ -1,304 +1,159 @@
 import { z } from 'zod';
+import path from 'path';
 import type { PlaywrightActionDefinition } from './types';
+import { listAssertionFailures } from '../assertions';
+import { describeDownload } from '../builtin-commands';
+import {
+  commandDefaultsSchema,
+  createCommandRun,
+  describeCommand,
+  failedAssertions,
+  parseCommands,
+  resolveDefaults,
+  runCommand
+} from '../commands';
+import type { CommandStepResult } from '../commands';
+import { dialogCount, dialogsSince, parseDialogPolicy } from '../dialogs';
+import { downloadCount, settleDownloads } from '../downloads';
 
 /**
  * A comprehensive action that wraps @playwright/mcp capabilities
  * Allows you to execute multiple browser commands in a single session
+ *
+ * Commands come from the shared registry in src/commands.ts, so they behave exactly
+ * like the same commands in shortcut files.
  */
 const browserSession: PlaywrightActionDefinition = {
   name: 'browser-session',
   title: 'Browser Session',
-  description: `Execute multiple browser commands in a single persistent session. Supports 24 command types:
+  description: `Execute multiple browser commands in a single persistent session. Supports 42 built-in command types (the same ones shortcuts use):
 
 NAVIGATION: navigate (goto URL), navigate_back, reload, get_url, get_title
 INTERACTION: click, type (sequential keystrokes), fill (instant input), press_key, hover
 SELECTION: check, uncheck, select_option (dropdowns)
 ADVANCED: drag (drag-and-drop), upload_file, clear (clear input)
-WAITING: wait_for_text, wait_for_selector, wait_for_timeout
-EXTRACTION: get_text, get_attribute
+WAITING: wait_for_text, wait_for_selector, wait_for_timeout (duration ms), wait_for_download
+EXTRACTION: get_text, get_attribute (saveAs: "name" on these, get_url, get_title and evaluate stores the value for later commands as {{name}}; pattern: "regex" stores its first capture group)
 UTILITIES: screenshot (full page or viewport), evaluate (run JavaScript), scroll
+ASSERTIONS: assert_text, assert_url, assert_title, assert_attribute, assert_value (equals | contains | matches regex, ignoreCase), assert_visible, assert_hidden, assert_enabled (enabled: false for disabled), assert_count (count | min/max). All wait up to timeout ms (default 5000); soft: true records the failure and goes on. Failed assertions are listed with expected and actual values.
+DIALOGS: set_dialog_policy (action: accept|dismiss, promptText for prompt())
+CONTROL FLOW (nested commands, results numbered like 3.2.1): if (condition + commands, else), repeat (times, until), while (condition, max), for_each (items, as -> {{item}}), retry (attempts, delay, backoff)
+COMPOSITION: call (shortcut file, params) runs a shortcut's commands as nested steps; run_script (script file, args) runs a script from .playwright-mcp/scripts/ (saveAs stores its return value)
+Conditions: { visible: selector } { hidden: selector } { text: "..." } { url: glob } plus not/all/any and timeout ms
 
 SELECTOR STRATEGIES:
-- CSS selectors: .class, #id, [data-test], button.primary
+- CSS selectors: .class, #id, [data-test], button.primary, or css:<any CSS selector>
 - Role-based: role:button[Submit], role:link[Home]
 - Test IDs: testid:login-btn
 - Placeholders: placeholder:Enter email
 - Labels: label:Username
+- Titles: title:Close
 - Plain text: Submit (finds text content)
+Selectors pierce open shadow DOM automatically (except XPath).
 
-Only specify required parameters per command type. All other fields are optional.`,
-  inputSchema: {
-    commands: z.array(z.any()).describe('Array of browser commands to execute in sequence')
-  },
-  headless: false,
-  async run({ page, input, logger }) {
-    const results: any[] = [];
-    let stepNumber = 0;
-
-    await logger(`Starting browser session with ${input.commands.length} command(s)`);
-
-    for (const cmd of input.commands) {
-      stepNumber++;
-      const desc = cmd.description || `${cmd.type} ${cmd.selector || cmd.url || ''}`.trim();
-      await logger(`\n[${stepNumber}/${input.commands.length}] ${desc}`);
-
-      try {
-        let result: any;
-
-        switch (cmd.type) {
-          case 'navigate':
-            await page.goto(cmd.url!);
-            await page.waitForLoadState('networkidle');
-            result = { url: page.url() };
-            break;
-
-          case 'navigate_back':
-            await page.goBack();
-            await page.waitForLoadState('networkidle');
-            result = { url: page.url() };
-            break;
-
-          case 'click':
-            if (cmd.selector) {
-              const locator = await getLocator(page, cmd.selector);
-              await locator.click({
-                button: cmd.button as any,
-                clickCount: cmd.clickCount
-              });
-              result = { clicked: cmd.selector };
-            }
-            break;
-
-          case 'type':
-            if (cmd.selector && cmd.value) {
-              const locator = await getLocator(page, cmd.selector);
-              await locator.pressSequentially(cmd.value, { delay: 50 });
-              result = { typed: cmd.value.length + ' characters' };
-            }
-            break;
-
-          case 'fill':
-            if (cmd.selector && cmd.value !== undefined) {
-              const locator = await getLocator(page, cmd.selector);
-              await locator.fill(cmd.value);
-              result = { filled: cmd.selector };
-            }
-            break;
-
-          case 'press_key':
-            if (cmd.key) {
-              await page.keyboard.press(cmd.key);
-              result = { pressed: cmd.key };
-            }
-            break;
-
-          case 'hover':
-            if (cmd.selector) {
-              const locator = await getLocator(page, cmd.selector);
-              await locator.hover();
-              result = { hovered: cmd.selector };
-            }
-            break;
-
-          case 'select_option':
-            if (cmd.selector && cmd.value) {
-              await page.selectOption(cmd.selector, cmd.value);
-              result = { selected: cmd.value };
-            }
-            break;
-
-          case 'drag':
-            if (cmd.selector && cmd.targetSelector) {
-              await page.dragAndDrop(cmd.selector, cmd.targetSelector);
-              result = { dragged: `${cmd.selector} to ${cmd.targetSelector}` };
-            }
-            break;
-
-          case 'wait_for_text':
-            if (cmd.text) {
-              await page.getByText(cmd.text).waitFor({ timeout: cmd.timeout });
-              result = { found: cmd.text };
-            }
-            break;
-
-          case 'wait_for_timeout':
-            await page.waitForTimeout(cmd.timeout || 1000);
-            result = { waited: cmd.timeout || 1000 + 'ms' };
-            break;
-
-          case 'wait_for_selector':
-            if (cmd.selector) {
-              await page.waitForSelector(cmd.selector, { timeout: cmd.timeout });
-              result = { found: cmd.selector };
-            }
-            break;
+FRAMES: add frame: "<iframe selector>" (or a list for nested iframes, outermost first) to any element command to run it inside that iframe, e.g. { type: "fill", frame: "iframe[name=card]", selector: "#number", value: "4242..." }. browser-snapshot with includeFrames lists iframe contents with their frame selectors.
 
-          case 'screenshot':
-            const screenshotPath = cmd.path || `.playwright-mcp/screenshot-${Date.now()}.png`;
-            await page.screenshot({
-              path: screenshotPath,
-              fullPage: cmd.fullPage
-            });
-            result = { screenshot: screenshotPath };
-            await logger(`  📸 Saved to: ${screenshotPath}`);
-            break;
+DOWNLOADS: files downloaded by any command are saved automatically and listed in that command's result. wait_for_download returns the next download of this call (waiting up to timeout ms for it to start).
 
-          case 'evaluate':
-            if (cmd.script) {
-              result = await page.evaluate(cmd.script);
-              await logger(`  📊 Result: ${JSON.stringify(result)}`);
-            }
-            break;
+DIALOGS: alert/confirm/prompt/beforeunload dialogs are answered by the session's dialog policy (default: accept) and listed in the result of the command that triggered them.
 
-          case 'get_text':
-            if (cmd.selector) {
-              const locator = await getLocator(page, cmd.selector);
-              result = { text: await locator.textContent() };
-              await logger(`  📝 Text: ${result.text}`);
-            }
-            break;
+ERRORS: any command takes timeout (ms), retries, retryDelay (ms, default 1000) and onError: stop | continue (default here) | screenshot-and-stop. The defaults input sets them for all commands. Results report attempts and the onError policy per step.
 
-          case 'get_attribute':
-            if (cmd.selector && cmd.attribute) {
-              const locator = await getLocator(page, cmd.selector);
-              result = { [cmd.attribute]: await locator.getAttribute(cmd.attribute) };
-              await logger(`  🏷️  ${cmd.attribute}: ${result[cmd.attribute]}`);
-            }
-            break;
+Commands are validated before any of them runs; unknown types or missing fields are reported per command. Custom actions can add command types.
 
-          case 'check':
-            if (cmd.selector) {
-              const locator = await getLocator(page, cmd.selector);
-              await locator.check();
-              result = { checked: cmd.selector };
-            }
-            break;
-
-          case 'uncheck':
-            if (cmd.selector) {
-              const locator = await getLocator(page, cmd.selector);
-              await locator.uncheck();
-              result = { unchecked: cmd.selector };
-            }
-            break;
-
-          case 'upload_file':
-            if (cmd.selector && cmd.files) {
-              await page.setInputFiles(cmd.selector, cmd.files);
-              result = { uploaded: cmd.files.length + ' file(s)' };
-            }
-            break;
-
-          case 'clear':
-            if (cmd.selector) {
-              const locator = await getLocator(page, cmd.selector);
-              await locator.clear();
-              result = { cleared: cmd.selector };
-            }
-            break;
-
-          case 'scroll':
-            await page.evaluate(({ x, y }) => {
-              window.scrollTo(x || 0, y || 0);
-            }, { x: cmd.x || 0, y: cmd.y || 0 });
-            result = { scrolled: { x: cmd.x, y: cmd.y } };
-            break;
-
-          case 'reload':
-            await page.reload();
-            await page.waitForLoadState('networkidle');
-            result = { reloaded: page.url() };
-            break;
-
-          case 'get_url':
-            result = { url: page.url() };
-            await logger(`  🔗 URL: ${result.url}`);
-            break;
+Only specify required parameters per command type. All other fields are optional.`,
+  inputSchema: {
+    commands: z.array(z.any()).describe('Array of browser commands to execute in sequence'),
+    dialogs: z.object({
+      action: z.enum(['accept', 'dismiss']),
+      promptText: z.string().optional(),
+    }).optional().describe('Set the session\'s dialog policy before running the commands (kept for later calls)'),
+    defaults: commandDefaultsSchema.optional()
+  },
+  async run({ page, context, input, logger, session, baseDir, interpolateSecrets }) {
+    const commands = parseCommands(input.commands);
+    const results: CommandStepResult[] = [];
+    const tabCountBefore = context.pages().length;
+    const downloadsBefore = downloadCount(session);
+    const dialogsBefore = dialogCount(session);
+
+    if (input.dialogs) {
+      session.dialogPolicy = parseDialogPolicy(input.dialogs.action, input.dialogs.promptText);
+      await logger(`Dialog policy: ${session.dialogPolicy.action}`);
+    }
+    // Unlike shortcuts, a session call goes on after a failed command unless told otherwise
+    const defaults = resolveDefaults(input.defaults, 'continue');
+    const run = createCommandRun({ page, session, baseDir, logger, interpolateSecrets, defaults });
 
-          case 'get_title':
-            result = { title: await page.title() };
-            await logger(`  📄 Title: ${result.title}`);
-            break;
-        }
+    await logger(`Starting browser session "${session.name}" with ${commands.length} command(s)`);
 
-        results.push({
-          step: stepNumber,
-          type: cmd.type,
-          success: true,
-          result
-        });
-        
-        await logger(`  ✅ Success`);
+    for (const [index, cmd] of commands.entries()) {
+      await logger(`\n[${index + 1}/${commands.length}] ${describeCommand(cmd)}`);
 
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        await logger(`  ❌ Error: ${errorMsg}`);
-        results.push({
-          step: stepNumber,
-          type: cmd.type,
-          success: false,
-          error: errorMsg
-        });
-        
-        // Optionally continue on error or break
-        // throw error; // Uncomment to stop on first error
+      const result = await runCommand(run, cmd, index + 1);
+      results.push(result);
+      await logger(result.success ? `  ✅ Success` : `  ❌ Error: ${result.error}`);
+      if (!result.success && result.onError !== 'continue') {
+        await logger(`  ⛔ Stopping (onError: ${result.onError})`);
+        break;
       }
     }
+    const skipped = commands.length - results.length;
+    const stopNote = skipped
+      ? `\n⛔ Stopped at step ${results.length} (onError: ${results[results.length - 1].onError}); ${skipped} command(s) not run`
+      : '';
 
     const successCount = results.filter(r => r.success).length;
     await logger(`\n✨ Session complete: ${successCount}/${results.length} commands succeeded`);
+    const assertionFailures = failedAssertions(run, results);
+    const assertionNote = assertionFailures.length
+      ? `\n❗ ${assertionFailures.length} assertion(s) failed:\n${listAssertionFailures(assertionFailures)}`
+      : '';
 
     // Capture final page accessibility snapshot
     const snapshot = await page.accessibility.snapshot();
     await logger(`📊 Final page snapshot captured`);
 
+    // Report the tab the commands ran against, and any popups or new tabs opened along the way
+    const tabs = context.pages();
+    const tab = tabs.indexOf(page);
+    const openedTabs = Math.max(0, tabs.length - tabCountBefore);
+    const activeTab = tabs.indexOf(session.page);
+    const tabNote = openedTabs > 0
+      ? `\n🗂️ ${openedTabs} new tab(s) opened during the session; tab ${activeTab} is now active (use browser-tabs to switch)`
+      : '';
+    const downloads = await settleDownloads(session, downloadsBefore);
+    const dialogs = dialogsSince(session, dialogsBefore);
+    const dialogNote = dialogs.length
+      ? `\n💬 ${dialogs.length} dialog(s): ${dialogs.map(dialog => `${dialog.type} "${dialog.message}" (${dialog.handled})`).join(', ')}`
+      : '';
+    const downloadNote = downloads.length
+      ? `\n📥 ${downloads.length} download(s) saved to ${path.relative(baseDir, session.downloadsDir)} (use list-downloads to see all)`
+      : '';
+
     return {
-      message: `Browser session completed: ${successCount}/${results.length} commands succeeded\n🔗 Final URL: ${page.url()}\n📄 Page title: ${await page.title()}\n\n📊 Page Structure:\n${JSON.stringify(snapshot, null, 2)}`,
+      message: `Browser session "${session.name}" completed: ${successCount}/${results.length} commands succeeded\n🗂️ Tab: ${tab} (${tabs.length} open)\n🔗 Final URL: ${page.url()}\n📄 Page title: ${await page.title()}${tabNote}${downloadNote}${stopNote}${dialogNote}${assertionNote}\n\n📊 Page Structure:\n${JSON.stringify(snapshot, null, 2)}`,
       structuredContent: {
+        session: session.name,
+        tab,
+        openTabs: tabs.length,
+        activeTab,
         totalCommands: results.length,
         succeeded: successCount,
         failed: results.length - successCount,
+        skipped,
+        defaults,
+        failedAssertions: assertionFailures,
         finalUrl: page.url(),
         finalTitle: await page.title(),
         pageSnapshot: snapshot,
+        downloads: downloads.map(download => describeDownload(download, baseDir)),
+        dialogPolicy: session.dialogPolicy,
+        dialogs,
         results
       }
     };
   }
 };
 
-// Helper function to get locator by various strategies
-async function getLocator(page: any, selector: string) {
-  // Try different strategies
-  // 1. CSS selector
-  if (selector.match(/^[.#[]/) || selector.includes('>') || selector.includes('+')) {
-    return page.locator(selector);
-  }
-  
-  // 2. Role-based (button, link, textbox, etc.)
-  const roleMatch = selector.match(/^role:(\w+)(?:\[(.+)\])?$/);
-  if (roleMatch) {
-    const [, role, name] = roleMatch;
-    return name ? page.getByRole(role, { name }) : page.getByRole(role);
-  }
-  
-  // 3. Test ID
-  if (selector.startsWith('testid:')) {
-    return page.getByTestId(selector.replace('testid:', ''));
-  }
-  
-  // 4. Placeholder
-  if (selector.startsWith('placeholder:')) {
-    return page.getByPlaceholder(selector.replace('placeholder:', ''));
-  }
-  
-  // 5. Label
-  if (selector.startsWith('label:')) {
-    return page.getByLabel(selector.replace('label:', ''));
-  }
-  
-  // 6. Text content (default for plain text)
-  return page.getByText(selector);
-}
-
 export default browserSession;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { Frame } from 'playwright';
 import type { PlaywrightActionDefinition } from './types';
 
 /**
@@ -6,12 +7,16 @@ import type { PlaywrightActionDefinition } from './types';
  * 
  * This provides a structured view of the page similar to @playwright/mcp's browser_snapshot.
  * Use this to discover proper selectors for elements before interacting with them.
+ * With includeFrames, iframe contents are listed too, each labelled with the frame
+ * selector chain browser-session commands accept as `frame`.
  */
 const browserSnapshot: PlaywrightActionDefinition = {
   name: 'browser-snapshot',
   title: 'Browser Snapshot',
-  description: 'Capture accessibility snapshot of the current page to discover element selectors and page structure',
-  inputSchema: z.object({}),
+  description: 'Capture accessibility snapshot of the current page to discover element selectors and page structure. Set includeFrames to also capture iframe contents, labelled with the frame selector to pass to browser-session commands.',
+  inputSchema: z.object({
+    includeFrames: z.boolean().optional().describe('Also capture the content of iframes (default: false)'),
+  }),
   async run(ctx) {
     ctx.logger(`📸 Capturing page snapshot...`);
 
@@ -20,9 +25,26 @@ const browserSnapshot: PlaywrightActionDefinition = {
     // Get page info
     const url = page.url();
     const title = await page.title();
+    const tabs = ctx.context.pages();
     
     // Use Playwright's ariaSnapshot method (same as @playwright/mcp)
     const snapshot = await page.locator('body').ariaSnapshot();
+
+    let frameSections = '';
+    if (ctx.input.includeFrames) {
+      const frames = page.frames().filter(frame => frame !== page.mainFrame());
+      for (const frame of frames) {
+        const chain = await frameChain(frame);
+        const frameSnapshot = await frame.locator('body').ariaSnapshot().catch(error => `# Not captured: ${error.message}`);
+        frameSections += `
+- Frame: ${JSON.stringify(chain.length === 1 ? chain[0] : chain)}
+  - URL: ${frame.url()}
+\`\`\`yaml
+${frameSnapshot}
+\`\`\``;
+      }
+      ctx.logger(`🪟 Captured ${frames.length} frame(s)`);
+    }
     
     ctx.logger(`✅ Snapshot captured`);
 
@@ -30,15 +52,53 @@ const browserSnapshot: PlaywrightActionDefinition = {
       content: [{
         type: 'text' as const,
         text: `### Page State
+- Session: ${ctx.session.name}
+- Tab: ${tabs.indexOf(page)} (${tabs.length} open)
 - Page URL: ${url}
 - Page Title: ${title}
 - Page Snapshot:
 \`\`\`yaml
 ${snapshot}
-\`\`\``,
+\`\`\`${frameSections}`,
       }],
     };
   },
 };
 
 export default browserSnapshot;
+
+/**
+ * Frame selectors from the outermost iframe down to `frame`, usable as a command's `frame`
+ */
+async function frameChain(frame: Frame): Promise<string[]> {
+  const chain: string[] = [];
+  for (let current: Frame | null = frame; current?.parentFrame(); current = current.parentFrame()) {
+    chain.unshift(await frameSelector(current));
+  }
+  return chain;
+}
+
+async function frameSelector(frame: Frame) {
+  const element = await frame.frameElement();
+  try {
+    for (const attribute of ['id', 'name', 'title']) {
+      const value = await element.getAttribute(attribute);
+      if (value) {
+        return attribute === 'id' ? `iframe#${cssEscape(value)}` : `iframe[${attribute}=${JSON.stringify(value)}]`;
+      }
+    }
+    const src = await element.getAttribute('src');
+    if (src) {
+      return `iframe[src=${JSON.stringify(src)}]`;
+    }
+    // Fall back to the position among the parent's iframes
+    const siblings = frame.parentFrame()!.childFrames();
+    return `iframe >> nth=${siblings.indexOf(frame)}`;
+  } finally {
+    await element.dispose();
+  }
+}
+
+function cssEscape(value: string) {
+  return value.replace(/[^\w-]/g, char => `\\${char}`);
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import type { Page } from 'playwright';
+import type { PlaywrightActionDefinition } from './types';
+
+/**
+ * Manage the tabs (pages) of the current browser session
+ *
+ * Tabs opened by the page itself (popups, OAuth windows, target=_blank links)
+ * are picked up automatically and become the active tab. Use this action to
+ * see them, switch back and forth, or close them.
+ */
+const browserTabs: PlaywrightActionDefinition = {
+  name: 'browser-tabs',
+  title: 'Browser Tabs',
+  description: 'List, open, switch and close tabs in the current browser session. Popups and target=_blank links become the active tab automatically; other actions always run against the active tab.',
+  inputSchema: z.object({
+    action: z.enum(['list', 'new', 'select', 'close']).describe('list (show open tabs), new (open a tab), select (make a tab active), close (close a tab)'),
+    index: z.number().int().min(0).optional().describe('Tab index as shown by list. Required for select; close defaults to the active tab'),
+    url: z.string().optional().describe('URL to open in the new tab (for new)'),
+  }),
+  async run(ctx) {
+    const { action, index, url } = ctx.input;
+    const pages = ctx.context.pages();
+
+    switch (action) {
+      case 'list':
+        ctx.logger(`🗂️  ${pages.length} tab(s) open`);
+        break;
+
+      case 'new': {
+        const page = await ctx.context.newPage();
+        if (url) {
+          await page.goto(url);
+        }
+        ctx.session.activatePage(page);
+        ctx.logger(`➕ Opened tab ${ctx.context.pages().indexOf(page)}${url ? `: ${url}` : ''}`);
+        break;
+      }
+
+      case 'select': {
+        const page = getTab(pages, index);
+        ctx.session.activatePage(page);
+        await page.bringToFront();
+        ctx.logger(`👉 Switched to tab ${index}: ${page.url()}`);
+        break;
+      }
+
+      case 'close': {
+        const page = index === undefined ? ctx.page : getTab(pages, index);
+        const closedIndex = pages.indexOf(page);
+        await page.close();
+        ctx.logger(`✖️  Closed tab ${closedIndex}`);
+        break;
+      }
+    }
+
+    const tabs = await describeTabs(ctx.context.pages(), ctx.session.page);
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          action,
+          session: ctx.session.name,
+          tabs,
+        }, null, 2),
+      }],
+    };
+  },
+};
+
+function getTab(pages: Page[], index: number | undefined): Page {
+  if (index === undefined) {
+    throw new Error('Tab index is required. Use action="list" to see open tabs.');
+  }
+  const page = pages[index];
+  if (!page) {
+    throw new Error(`No tab at index ${index}. ${pages.length} tab(s) open (0-${pages.length - 1}).`);
+  }
+  return page;
+}
+
+async function describeTabs(pages: Page[], activePage: Page) {
+  return Promise.all(pages.map(async (page, index) => ({
+    index,
+    url: page.url(),
+    title: await page.title().catch(() => ''),
+    active: page === activePage,
+  })));
+}
+
+export default browserTabs;
@@ -5,21 +5,22 @@ import type { PlaywrightActionDefinition } from './types';
  * Close the persistent browser session
  * 
  * Use this when you're done with automation and want to clean up resources.
+ * Only the named session is closed; other sessions keep running. Browsers attached
+ * with --cdp-endpoint or --ws-endpoint are only disconnected, never killed.
  */
 const closeBrowser: PlaywrightActionDefinition = {
   name: 'close-browser',
   title: 'Close Browser Session',
-  description: 'Close the persistent browser session to free up resources',
+  description: 'Close the persistent browser session (or the one named by `session`) to free up resources',
   inputSchema: z.object({}),
   async run(ctx) {
-    ctx.logger(`Closing browser session...`);
+    const attached = Boolean(ctx.session.attached);
+    ctx.logger(`${attached ? 'Disconnecting from' : 'Closing'} browser session "${ctx.session.name}"...`);
     
-    // Close page, context, and browser
+    // Close the session's browser and drop it from the session registry
     try {
-      await ctx.page.close();
-      await ctx.context.close();
-      await ctx.browser.close();
-      ctx.logger(`✅ Browser closed successfully`);
+      await ctx.session.close();
+      ctx.logger(attached ? `✅ Disconnected, the browser keeps running` : `✅ Browser closed successfully`);
     } catch (error: any) {
       ctx.logger(`⚠️  Error closing browser: ${error.message}`);
     }
@@ -27,7 +28,9 @@ const closeBrowser: PlaywrightActionDefinition = {
     return {
       content: [{
         type: 'text' as const,
-        text: 'Browser session closed.',
+        text: attached
+          ? `Disconnected from browser session "${ctx.session.name}". The attached browser is still running.`
+          : `Browser session "${ctx.session.name}" closed.`,
       }],
     };
   },
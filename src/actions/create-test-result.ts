@@ -3,7 +3,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import type { PlaywrightActionDefinition } from './types';
 
-interface TestResultBuilder {
+export interface TestResultBuilder {
   testCase?: {
     name: string;
     file: string;
@@ -31,6 +31,10 @@ interface TestResultBuilder {
     error?: string | null;
     timestamp: string;
   }>;
+  artifacts?: {
+    har?: string;
+    trace?: string;
+  };
   metadata?: {
     generatedBy: string;
     reportVersion: string;
@@ -48,7 +52,7 @@ const createTestResult: PlaywrightActionDefinition = {
   description: 'Iteratively create or update test result JSON file. Supports step-by-step construction: set test case info, add test data, add steps one by one, set summary, and finalize.',
   inputSchema: z.object({
     testId: z.string().describe('Unique test identifier (e.g., l1_login) - used in filename'),
-    action: z.enum(['init', 'set-testcase', 'set-testdata', 'add-step', 'set-summary', 'finalize']).describe('Action to perform: init (start new), set-testcase (test info), set-testdata (env variables), add-step (add test step), set-summary (test results), finalize (save JSON)'),
+    action: z.enum(['init', 'set-testcase', 'set-testdata', 'add-step', 'set-summary', 'set-artifacts', 'finalize']).describe('Action to perform: init (start new), set-testcase (test info), set-testdata (env variables), add-step (add test step), set-summary (test results), set-artifacts (attach HAR and trace files), finalize (save JSON)'),
     
     // Test Case fields (for set-testcase)
     testName: z.string().optional().describe('Test case name'),
@@ -76,6 +80,10 @@ const createTestResult: PlaywrightActionDefinition = {
     duration: z.number().optional().describe('Total test duration in milliseconds'),
     browser: z.string().optional().describe('Browser used (chromium, firefox, webkit)'),
     
+    // Artifact fields (for set-artifacts)
+    harFile: z.string().optional().describe('HAR file recorded during the test (e.g., test-results/har/l1_login.har)'),
+    traceFile: z.string().optional().describe('Playwright trace saved by the tracing tool (e.g., test-results/traces/l1_login.zip)'),
+    
     // Output options
     outputDir: z.string().optional().describe('Output directory (default: test-results/json)'),
   }),
@@ -201,6 +209,15 @@ const createTestResult: PlaywrightActionDefinition = {
         ctx.logger(`✅ Updated summary: ${builder.summary.status} (${builder.summary.passedSteps}/${builder.summary.totalSteps} passed)`);
         break;
 
+      case 'set-artifacts':
+        ctx.logger(`📎 Setting artifacts for: ${testId}`);
+        if (!builder.artifacts) builder.artifacts = {};
+        if (ctx.input.harFile) builder.artifacts.har = ctx.input.harFile;
+        if (ctx.input.traceFile) builder.artifacts.trace = ctx.input.traceFile;
+        await fs.writeFile(stateFile, JSON.stringify(builder, null, 2), 'utf-8');
+        ctx.logger(`✅ Updated artifacts: ${Object.keys(builder.artifacts).join(', ') || 'none'}`);
+        break;
+
       case 'finalize':
         ctx.logger(`💾 Finalizing test result for: ${testId}`);
         
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import type { BrowserContextOptions } from 'playwright';
+import type { PlaywrightActionDefinition } from './types';
+import { EMULATION_OPTION_KEYS, buildEmulationOptions, readEffectiveEmulation } from '../emulation';
+
+/**
+ * Emulate a device, viewport, locale, timezone or geolocation in the current session
+ *
+ * Playwright fixes these settings when a context is created, so the session's context
+ * is recreated with the new settings. Cookies and localStorage are carried over and the
+ * current URL is reopened, so logins survive the switch.
+ */
+const emulate: PlaywrightActionDefinition = {
+  name: 'emulate',
+  title: 'Emulate Device / Locale / Location',
+  description: 'Switch the current session to a device (Playwright descriptor name like "iPhone 13" or "Pixel 7"), viewport, locale, timezone, color scheme or fake geolocation. Keeps cookies/localStorage and reopens the current URL. Returns the effective settings.',
+  inputSchema: z.object({
+    device: z.string().optional().describe('Playwright device descriptor name, e.g. "iPhone 13", "Pixel 7", "iPad Pro 11", "Desktop Chrome"'),
+    viewport: z.object({
+      width: z.number().int().positive(),
+      height: z.number().int().positive(),
+    }).optional().describe('Viewport size in CSS pixels (overrides the device viewport)'),
+    locale: z.string().optional().describe('Locale, e.g. de-DE'),
+    timezoneId: z.string().optional().describe('IANA timezone, e.g. Europe/Berlin'),
+    geolocation: z.object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      accuracy: z.number().nonnegative().optional(),
+    }).optional().describe('Fake geolocation (geolocation permission is granted automatically)'),
+    colorScheme: z.enum(['light', 'dark', 'no-preference']).optional().describe('Preferred color scheme'),
+    reset: z.boolean().optional().describe('Clear all previous emulation before applying these settings (default: false)'),
+  }),
+  async run(ctx) {
+    const { reset = false, ...settings } = ctx.input;
+    const overrides: BrowserContextOptions = buildEmulationOptions(settings);
+
+    if (reset) {
+      for (const key of EMULATION_OPTION_KEYS) {
+        if (!(key in overrides)) {
+          (overrides as Record<string, unknown>)[key] = undefined;
+        }
+      }
+      if (!settings.geolocation) {
+        overrides.permissions = undefined;
+      }
+    } else if (!Object.keys(overrides).length) {
+      throw new Error('Nothing to emulate. Pass a device or at least one of viewport, locale, timezoneId, geolocation, colorScheme (or reset: true).');
+    }
+
+    ctx.logger(`📱 Applying emulation${settings.device ? ` for ${settings.device}` : ''}...`);
+
+    // Carry cookies and localStorage (and the loaded auth profile) over to the new context
+    const storageState = await ctx.session.context.storageState();
+    const authProfile = ctx.session.authProfile;
+    await ctx.session.recreateContext({ ...overrides, storageState });
+    ctx.session.authProfile = authProfile;
+
+    const effective = await readEffectiveEmulation(ctx.session.page, ctx.session.contextOptions);
+    ctx.logger(`✅ Emulating ${effective.viewport ? `${effective.viewport.width}x${effective.viewport.height}` : 'no fixed viewport'}, ${effective.locale}, ${effective.timezoneId}`);
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          session: ctx.session.name,
+          device: settings.device ?? null,
+          url: ctx.session.page.url(),
+          effective,
+        }, null, 2),
+      }],
+    };
+  },
+};
+
+export default emulate;
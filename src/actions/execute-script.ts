@@ -1,7 +1,7 @@
 import { z } from 'zod';
-import * as fs from 'fs';
-import * as path from 'path';
 import type { PlaywrightActionDefinition } from './types';
+import { resolveParams } from '../shortcut-params';
+import { loadScript, resolveScriptPath, runScriptCommand } from '../scripts';
 
 /**
  * Execute a TypeScript/JavaScript script file in the browser context
@@ -19,6 +19,13 @@ import type { PlaywrightActionDefinition } from './types';
  *   return { scraped: data };
  * }
  * ```
+ *
+ * A script can describe itself and declare its args in the shortcut params format; declared
+ * args are type-checked and defaulted before the script runs:
+ * ```typescript
+ * export const description = 'Scrape the top headlines';
+ * export const params = { url: { type: 'string', required: true }, limit: { type: 'number', default: 10 } };
+ * ```
  */
 const executeScript: PlaywrightActionDefinition = {
   name: 'execute-script',
@@ -28,62 +35,21 @@ const executeScript: PlaywrightActionDefinition = {
     scriptPath: z.string().describe('Path to the TS/JS script file (absolute or relative to .playwright-mcp/scripts/)'),
     scriptArgs: z.record(z.any()).optional().describe('Optional arguments to pass to the script'),
   }),
+  // Lets shortcuts and browser-session run scripts as a step, e.g. in a before hook
+  commands: [runScriptCommand],
   async run(ctx, helpers) {
     const { scriptPath, scriptArgs = {} } = ctx.input;
 
     ctx.logger(`📜 Loading script: ${scriptPath}`);
 
-    // Resolve the script path
-    const workspaceRoot = ctx.baseDir;
-    
-    let resolvedPath = scriptPath;
-    if (!path.isAbsolute(scriptPath)) {
-      // Check in .playwright-mcp/scripts first
-      const scriptsDir = path.join(workspaceRoot, '.playwright-mcp', 'scripts');
-      const scriptInDir = path.join(scriptsDir, scriptPath);
-      
-      if (fs.existsSync(scriptInDir)) {
-        resolvedPath = scriptInDir;
-      } else if (fs.existsSync(path.join(workspaceRoot, scriptPath))) {
-        resolvedPath = path.join(workspaceRoot, scriptPath);
-      }
-    }
-
-    if (!fs.existsSync(resolvedPath)) {
-      throw new Error(`Script file not found: ${resolvedPath}\nSearched in: .playwright-mcp/scripts/ and workspace root`);
-    }
+    // Resolve the script path using the base directory
+    const resolvedPath = resolveScriptPath(ctx.baseDir, scriptPath);
 
     ctx.logger(`✅ Loading script from: ${resolvedPath}`);
 
-    // For TypeScript files, use ts-node to execute
-    let scriptModule: any;
-    
-    try {
-      if (resolvedPath.endsWith('.ts')) {
-        // Register ts-node for TypeScript execution
-        require('ts-node').register({
-          transpileOnly: true,
-          compilerOptions: {
-            module: 'commonjs',
-            target: 'es2020',
-          },
-        });
-      }
-      
-      // Clear module cache to ensure fresh execution
-      delete require.cache[require.resolve(resolvedPath)];
-      
-      scriptModule = require(resolvedPath);
-    } catch (error: any) {
-      throw new Error(`Failed to load script: ${error.message}`);
-    }
-
-    // Get the default export or the module itself
-    const scriptFn = scriptModule.default || scriptModule;
-    
-    if (typeof scriptFn !== 'function') {
-      throw new Error('Script must export a default function');
-    }
+    const script = loadScript(resolvedPath);
+    // A script that declares params gets its args type-checked and defaulted like a shortcut's params
+    const args = script.params ? resolveParams(script.params, scriptArgs) : scriptArgs;
 
     ctx.logger(`▶️  Executing script...`);
 
@@ -91,11 +57,11 @@ const executeScript: PlaywrightActionDefinition = {
     let scriptResult: any;
     
     try {
-      scriptResult = await scriptFn({
+      scriptResult = await script.run({
         page: ctx.page,
         context: ctx.context,
         browser: ctx.browser,
-        args: scriptArgs,
+        args,
         logger: ctx.logger,
         playwright: helpers.playwright,
         env: ctx.env,
@@ -1,7 +1,17 @@
 import { z } from 'zod';
-import * as fs from 'fs';
 import * as path from 'path';
-import type { PlaywrightActionDefinition } from './types';
+import type { ActionContext, AssertionFailure, PlaywrightActionDefinition } from './types';
+import { useAuthProfile } from '../auth-profiles';
+import { addMockRule, removeMockRule } from '../network-mocks';
+import { startHarReplay, stopHarReplay } from '../har';
+import { listAssertionFailures } from '../assertions';
+import { commandDefaultsSchema, createCommandRun, describeCommand, failedAssertions, failureCause, resolveDefaults, runCommand } from '../commands';
+import type { CommandDefaults, CommandRun, CommandStepResult, ParsedCommand } from '../commands';
+import { callCommand, findCallError, loadShortcut, resolveShortcutPath, shortcutName } from '../shortcuts';
+import type { LoadedShortcut, ShortcutHook } from '../shortcuts';
+import { loadDataset } from '../datasets';
+import { DEFAULT_TEST_RESULTS_DIR, writeTestResult } from '../test-results';
+import type { TestResultRecord } from '../test-results';
 
 /**
  * Execute a YAML shortcut file containing browser commands
@@ -25,156 +35,402 @@ import type { PlaywrightActionDefinition } from './types';
  *   - type: wait_for_selector
  *     selector: '[data-login="true"]'
  * ```
+ *
+ * Besides commands, a shortcut can declare params, requiresAuth, mocks, har and before/after
+ * hooks; see docs/05-shortcuts.md.
  */
-const executeShortcut: PlaywrightActionDefinition = {
+const inputSchema = z.object({
+  shortcutPath: z.string().describe('Path to the YAML shortcut file (absolute or relative to .playwright-mcp/shortcuts/)'),
+  params: z.record(z.unknown()).optional().describe('Values for the params the shortcut declares in its params: block (with a dataset: values shared by every row)'),
+  defaults: commandDefaultsSchema.optional(),
+  dataset: z.union([z.string(), z.array(z.record(z.unknown()))]).optional()
+    .describe('Run once per row, the row\'s fields bound as params: a .csv (header row) or .json (array) file in .playwright-mcp/data/, or an inline array of objects'),
+  freshContext: z.boolean().optional().describe('With a dataset: start every row in a new browser context (no cookies or storage from earlier rows)'),
+  testResults: z.boolean().optional().describe(`With a dataset: also save each row as a test result JSON in ${DEFAULT_TEST_RESULTS_DIR} (see generate-summary-report)`),
+});
+
+type ShortcutInput = z.infer<typeof inputSchema>;
+
+type HookResults = Partial<Record<ShortcutHook, CommandStepResult[]>>;
+
+/** What one run of a shortcut's commands did; `failure` is set when a step stopped the run */
+interface ShortcutOutcome {
+  commands: ParsedCommand[];
+  results: CommandStepResult[];
+  /** Milliseconds each top-level step took, in the order of results. */
+  durations: number[];
+  /** Results of the before, after and afterFailure sections that ran, apart from the commands'. */
+  hooks: HookResults;
+  failure?: string;
+  /** Steps that failed under onError: continue. */
+  failedSteps: number;
+  assertionFailures: AssertionFailure[];
+}
+
+/** A dataset row's entry in the pass/fail matrix */
+interface DatasetRowOutcome {
+  row: number;
+  status: 'PASSED' | 'FAILED';
+  params: Record<string, unknown>;
+  duration: number;
+  failedSteps?: number;
+  error?: string;
+  failedAssertions?: AssertionFailure[];
+  testResult?: string;
+}
+
+const executeShortcut: PlaywrightActionDefinition<typeof inputSchema> = {
   name: 'execute-shortcut',
   title: 'Execute Shortcut (YAML)',
-  description: 'Execute a YAML shortcut file containing browser automation commands. Shortcuts are reusable command sequences stored as YAML files.',
-  inputSchema: z.object({
-    shortcutPath: z.string().describe('Path to the YAML shortcut file (absolute or relative to .playwright-mcp/shortcuts/)'),
-  }),
-  async run(ctx, helpers) {
+  description: 'Execute a YAML shortcut file containing browser automation commands. Shortcuts are reusable command sequences stored as YAML files. Pass values for the shortcut\'s declared params (e.g. a search term) in params; they are type-checked before any command runs. Mocks, HAR replay and dialog policy declared by the shortcut last only for this run. Pass a dataset (CSV/JSON file or inline rows) to run the shortcut once per row and get a pass/fail matrix.',
+  inputSchema,
+  // call is part of the shortcut format, so it is registered with the action that runs shortcuts
+  commands: [callCommand],
+  async run(ctx) {
     const { shortcutPath } = ctx.input;
-    const yaml = await import('yaml');
 
     ctx.logger(`📋 Loading shortcut: ${shortcutPath}`);
 
     // Resolve the shortcut path using the base directory
-    const workspaceRoot = ctx.baseDir;
-    
-    let resolvedPath = shortcutPath;
-    if (!path.isAbsolute(shortcutPath)) {
-      // Check in .playwright-mcp/shortcuts first
-      const shortcutsDir = path.join(workspaceRoot, '.playwright-mcp', 'shortcuts');
-      const shortcutInDir = path.join(shortcutsDir, shortcutPath);
-      
-      if (fs.existsSync(shortcutInDir)) {
-        resolvedPath = shortcutInDir;
-      } else if (fs.existsSync(path.join(workspaceRoot, shortcutPath))) {
-        resolvedPath = path.join(workspaceRoot, shortcutPath);
-      }
-    }
+    const resolvedPath = resolveShortcutPath(ctx.baseDir, shortcutPath);
+    const defaults = resolveDefaults(ctx.input.defaults, 'stop');
 
-    if (!fs.existsSync(resolvedPath)) {
-      throw new Error(`Shortcut file not found: ${resolvedPath}\nSearched in: .playwright-mcp/shortcuts/ and workspace root`);
+    if (ctx.input.dataset !== undefined) {
+      return runDataset(ctx, resolvedPath, defaults);
     }
 
-    // Read and parse YAML
-    const yamlContent = fs.readFileSync(resolvedPath, 'utf-8');
-    
-    // Interpolate secrets before parsing YAML
-    const interpolatedYaml = ctx.interpolateSecrets(yamlContent);
-    
-    let shortcutData: any;
-    
-    try {
-      shortcutData = yaml.parse(interpolatedYaml);
-    } catch (error: any) {
-      throw new Error(`Failed to parse YAML shortcut: ${error.message}`);
+    // Params are checked and substituted, and commands validated, before anything touches the browser
+    const shortcut = loadShortcut(resolvedPath, ctx.interpolateSecrets, ctx.input.params);
+    const { params, commands } = shortcut;
+    if (Object.keys(params).length) {
+      ctx.logger(`🧩 Params: ${describeParams(params)}`);
     }
+    ctx.logger(`✅ Loaded ${commands.length} commands from shortcut`);
 
-    if (!shortcutData?.commands || !Array.isArray(shortcutData.commands)) {
-      throw new Error('Shortcut file must contain a "commands" array');
+    const { results, hooks, failure, failedSteps, assertionFailures } = await runShortcut(ctx, shortcut, defaults);
+    if (failure) {
+      throw new Error(`${failure}${describeHooks(hooks)}`);
     }
 
-    ctx.logger(`✅ Loaded ${shortcutData.commands.length} commands from shortcut`);
-
-    // Execute commands in this browser session
-    const results: any[] = [];
-    
-    for (let i = 0; i < shortcutData.commands.length; i++) {
-      const cmd = shortcutData.commands[i];
-      ctx.logger(`[${i + 1}/${shortcutData.commands.length}] Executing: ${cmd.type}`);
-      
-      try {
-        let result: any;
-        
-        switch (cmd.type) {
-          case 'navigate':
-            await ctx.page.goto(cmd.url, { waitUntil: cmd.waitUntil || 'load' });
-            result = { url: ctx.page.url() };
-            break;
-            
-          case 'click':
-            await ctx.page.locator(cmd.selector).click();
-            result = { clicked: cmd.selector };
-            break;
-            
-          case 'fill':
-            await ctx.page.locator(cmd.selector).fill(cmd.value);
-            result = { filled: cmd.selector };
-            break;
-            
-          case 'type':
-            await ctx.page.locator(cmd.selector).pressSequentially(cmd.value, { delay: cmd.delay || 100 });
-            result = { typed: cmd.selector };
-            break;
-            
-          case 'press_key':
-            await ctx.page.keyboard.press(cmd.key);
-            result = { pressed: cmd.key };
-            break;
-            
-          case 'wait_for_selector':
-            await ctx.page.waitForSelector(cmd.selector, { timeout: cmd.timeout });
-            result = { found: cmd.selector };
-            break;
-            
-          case 'wait_for_text':
-            await ctx.page.waitForSelector(`text=${cmd.text}`, { timeout: cmd.timeout });
-            result = { found: cmd.text };
-            break;
-            
-          case 'wait_for_timeout':
-            await ctx.page.waitForTimeout(cmd.duration);
-            result = { waited: `${cmd.duration}ms` };
-            break;
-            
-          case 'screenshot':
-            const screenshotPath = cmd.path || `screenshot-${Date.now()}.png`;
-            await ctx.page.screenshot({ path: screenshotPath, fullPage: cmd.fullPage });
-            result = { screenshot: screenshotPath };
-            break;
-            
-          case 'get_text':
-            const text = await ctx.page.locator(cmd.selector).textContent();
-            result = { text };
-            break;
-            
-          case 'get_url':
-            result = { url: ctx.page.url() };
-            break;
-            
-          case 'get_title':
-            result = { title: await ctx.page.title() };
-            break;
-            
-          default:
-            throw new Error(`Unknown command type: ${cmd.type}`);
-        }
-        
-        results.push({ step: i + 1, command: cmd.type, ...result });
-        
-      } catch (error: any) {
-        ctx.logger(`❌ Error at step ${i + 1}: ${error.message}`);
-        throw error;
-      }
+    if (failedSteps) {
+      ctx.logger(`⚠️  ${failedSteps} of ${commands.length} commands failed (onError: continue)`);
     }
-
-    ctx.logger(`✅ Successfully executed ${shortcutData.commands.length} commands`);
+    ctx.logger(assertionFailures.length
+      ? `⚠️  Executed ${commands.length} commands; ${assertionFailures.length} assertion(s) failed:\n${listAssertionFailures(assertionFailures)}`
+      : failedSteps ? `Executed ${commands.length} commands` : `✅ Successfully executed ${commands.length} commands`);
 
     return {
       content: [{
         type: 'text' as const,
         text: JSON.stringify({
-          success: true,
+          // Soft assertion failures and steps that continue on error fail the shortcut without stopping it
+          success: failedSteps === 0 && assertionFailures.length === 0,
           shortcutPath: resolvedPath,
-          commandsExecuted: shortcutData.commands.length,
+          ...(Object.keys(params).length ? { params } : {}),
+          commandsExecuted: commands.length,
+          ...(failedSteps ? { failedSteps } : {}),
+          defaults,
+          ...(assertionFailures.length ? { failedAssertions: assertionFailures } : {}),
           results,
+          ...(Object.keys(hooks).length ? { hooks } : {}),
         }, null, 2),
       }],
     };
   },
 };
 
+/**
+ * Run a loaded shortcut's commands with its auth profile, mocks and HAR replay in place,
+ * removing the mocks and replay (and restoring the dialog policy) afterwards
+ */
+async function runShortcut(ctx: ActionContext<ShortcutInput>, shortcut: LoadedShortcut, defaults: CommandDefaults): Promise<ShortcutOutcome> {
+  const { data: shortcutData, commands, path: resolvedPath } = shortcut;
+
+  if (shortcutData.requiresAuth) {
+    const requirement = typeof shortcutData.requiresAuth === 'string'
+      ? { profile: shortcutData.requiresAuth }
+      : shortcutData.requiresAuth;
+    if (!requirement?.profile) {
+      throw new Error('requiresAuth must be a profile name or an object with a "profile" field');
+    }
+    const { loaded } = await useAuthProfile(ctx.session, ctx.baseDir, requirement.profile, { maxAgeMinutes: requirement.maxAge });
+    ctx.logger(loaded
+      ? `🔓 Loaded auth profile "${requirement.profile}"`
+      : `🔓 Auth profile "${requirement.profile}" already active`);
+  }
+
+  // Loading a profile replaces the context, so always work on the session's current page
+  const page = ctx.session.page;
+
+  if (shortcutData.mocks !== undefined && !Array.isArray(shortcutData.mocks)) {
+    throw new Error('Shortcut "mocks" must be a list of mock rules');
+  }
+  const harSpec = typeof shortcutData.har === 'string' ? { replay: shortcutData.har } : shortcutData.har;
+  if (harSpec !== undefined && !harSpec?.replay) {
+    throw new Error('Shortcut "har" must be a HAR file or an object with a "replay" field');
+  }
+
+  // Execute commands in this browser session
+  const results: CommandStepResult[] = [];
+  const durations: number[] = [];
+  let failure: string | undefined;
+  // Steps that failed under onError: continue
+  let failedSteps = 0;
+  const run = createCommandRun({ page, session: ctx.session, baseDir: ctx.baseDir, logger: ctx.logger, interpolateSecrets: ctx.interpolateSecrets, defaults });
+  // Mocks declared by the shortcut only live for this run
+  const mockIds: string[] = [];
+  // The session's own replay (if any) is restored after the shortcut's replay
+  const previousReplay = ctx.session.harReplay;
+  // Like mocks, a dialog policy set by the shortcut only lasts for this run
+  const previousDialogPolicy = ctx.session.dialogPolicy;
+
+  const hooks: HookResults = {};
+  // before stops at a failed step like the commands do; after and afterFailure clean up, so they run every step.
+  // In any hook, a step with onError: continue only counts as failed
+  const runHook = async (hook: ShortcutHook) => {
+    const hookCommands = shortcut.hooks[hook];
+    if (!hookCommands?.length) return undefined;
+    ctx.logger(`🪝 Running ${hook} hook (${hookCommands.length} command(s))`);
+    const hookResults: CommandStepResult[] = hooks[hook] = [];
+    let hookFailure: string | undefined;
+    for (const [index, cmd] of hookCommands.entries()) {
+      ctx.logger(`[${hook} ${index + 1}/${hookCommands.length}] Executing: ${describeCommand(cmd)}`);
+      const result = await runCommand(run, cmd, `${hook}.${index + 1}`);
+      hookResults.push(result);
+      if (result.success) continue;
+
+      ctx.logger(`❌ Error at ${hook} hook step ${index + 1}: ${result.error}`);
+      if (result.onError === 'continue') {
+        failedSteps++;
+        continue;
+      }
+      hookFailure ??= describeStepFailure(ctx, run, resolvedPath, result, cmd, `${hook} hook step ${index + 1}`);
+      if (hook === 'before') break;
+    }
+    return hookFailure;
+  };
+
+  let completed = false;
+  try {
+    try {
+      if (harSpec) {
+        const replay = await startHarReplay(ctx.session, ctx.baseDir, harSpec.replay, { notFound: harSpec.notFound, url: harSpec.url });
+        ctx.logger(`▶️  Replaying ${path.basename(replay.path)} (notFound: ${replay.notFound})`);
+      }
+
+      for (const spec of shortcutData.mocks ?? []) {
+        // Scoped to the shortcut so an explicit id never replaces (and then removes) a session rule
+        const id = spec.id === undefined ? undefined : `${path.relative(ctx.baseDir, resolvedPath)}#${spec.id}`;
+        const rule = await addMockRule(ctx.session, ctx.baseDir, { ...spec, id });
+        mockIds.push(rule.id);
+        ctx.logger(`🕸️  Mocking ${rule.method ?? 'ANY'} ${rule.url}`);
+      }
+
+      // Lets call commands detect cycles and report the include stack
+      run.state.shortcuts.push(resolvedPath);
+      failure = await runHook('before');
+      if (failure) {
+        ctx.logger('⏭️  Skipping the commands: the before hook failed');
+      }
+      for (const [index, cmd] of (failure ? [] : commands).entries()) {
+        ctx.logger(`[${index + 1}/${commands.length}] Executing: ${describeCommand(cmd)}`);
+        const started = Date.now();
+        const result = await runCommand(run, cmd, index + 1);
+        results.push(result);
+        durations.push(Date.now() - started);
+
+        if (!result.success) {
+          ctx.logger(`❌ Error at step ${index + 1}: ${result.error}`);
+          if (result.onError === 'continue') {
+            failedSteps++;
+            continue;
+          }
+          failure = describeStepFailure(ctx, run, resolvedPath, result, cmd, `step ${index + 1}`);
+          break;
+        }
+      }
+      completed = true;
+    } finally {
+      // Cleanup hooks run however the commands ended: passed, stopped at a failed step or threw
+      const failed = failure !== undefined || !completed;
+      for (const hook of failed ? ['afterFailure', 'after'] as const : ['after'] as const) {
+        const hookFailure = await runHook(hook);
+        if (hookFailure) {
+          failure = failure ? `${failure}\n${hook} hook also failed: ${hookFailure}` : hookFailure;
+        }
+      }
+    }
+  } finally {
+    for (const id of mockIds) {
+      await removeMockRule(ctx.session, id);
+    }
+    ctx.session.dialogPolicy = previousDialogPolicy;
+    if (harSpec) {
+      if (previousReplay) {
+        await startHarReplay(ctx.session, ctx.baseDir, previousReplay.path, previousReplay);
+      } else {
+        await stopHarReplay(ctx.session);
+      }
+    }
+  }
+
+  const assertionFailures = failedAssertions(run, [...(hooks.before ?? []), ...results, ...(hooks.afterFailure ?? []), ...(hooks.after ?? [])]);
+  return { commands, results, durations, hooks, failure, failedSteps, assertionFailures };
+}
+
+// Why a step stopped the run, with its screenshot, dialogs and the soft assertions that failed before it
+function describeStepFailure(ctx: ActionContext<ShortcutInput>, run: CommandRun, resolvedPath: string, result: CommandStepResult, cmd: ParsedCommand, where: string) {
+  const screenshot = result.screenshot ? `\nScreenshot: ${result.screenshot}` : '';
+  const dialogs = result.dialogs?.length
+    ? `\nDialogs during this step: ${result.dialogs.map(dialog => `${dialog.type} "${dialog.message}" (${dialog.handled})`).join(', ')}`
+    : '';
+  // Soft assertions that failed before the step are reported along with it
+  const softFailures = run.state.assertionFailures;
+  const assertions = softFailures.length
+    ? `\nSoft assertions that failed earlier:\n${listAssertionFailures(softFailures)}`
+    : '';
+  // A failed call already names the shortcuts and step involved
+  const callError = findCallError(failureCause(result));
+  return callError
+    ? `${callError.message}${screenshot}${dialogs}${assertions}`
+    : `${shortcutName(ctx.baseDir, resolvedPath)} ${where} (${cmd.type}) failed: ${result.error}${screenshot}${dialogs}${assertions}`;
+}
+
+// "Hooks: before 1/1 passed, after 2/2 passed", for failures that are reported as an error
+function describeHooks(hooks: HookResults) {
+  const entries = Object.entries(hooks).map(([hook, results]) => `${hook} ${results.filter(result => result.success).length}/${results.length} passed`);
+  return entries.length ? `\nHooks: ${entries.join(', ')}` : '';
+}
+
+/**
+ * Run the shortcut once per dataset row, the row's fields bound as params, and collect a pass/fail
+ * matrix. A failing row (bad values or a failed step) does not stop the rows after it.
+ */
+async function runDataset(ctx: ActionContext<ShortcutInput>, resolvedPath: string, defaults: CommandDefaults) {
+  const dataset = loadDataset(ctx.baseDir, ctx.input.dataset!);
+  if (!dataset.rows.length) {
+    throw new Error(`Dataset ${dataset.source} has no rows`);
+  }
+  const name = shortcutName(ctx.baseDir, resolvedPath);
+  ctx.logger(`🗂️  Dataset ${dataset.source}: ${dataset.rows.length} row(s)${ctx.input.freshContext ? ', fresh browser context per row' : ''}`);
+
+  const matrix: DatasetRowOutcome[] = [];
+  for (const [index, row] of dataset.rows.entries()) {
+    const label = `Row ${index + 1}/${dataset.rows.length}`;
+    const started = Date.now();
+    let params: Record<string, unknown> = { ...ctx.input.params, ...row };
+    let outcome: ShortcutOutcome | undefined;
+    let error: string | undefined;
+    try {
+      // CSV cells are text; they are converted to the declared param types
+      const shortcut = loadShortcut(resolvedPath, ctx.interpolateSecrets, params, { coerceParams: dataset.format === 'csv' });
+      params = shortcut.params;
+      if (ctx.input.freshContext) {
+        await ctx.session.recreateContext();
+      }
+      ctx.logger(`▶️  ${label}: ${describeParams(params)}`);
+      outcome = await runShortcut(ctx, shortcut, defaults);
+      error = outcome.failure;
+    } catch (rowError) {
+      error = (rowError as Error).message;
+    }
+
+    const failedSteps = outcome?.failedSteps ?? 0;
+    const assertionFailures = outcome?.assertionFailures ?? [];
+    const entry: DatasetRowOutcome = {
+      row: index + 1,
+      status: !error && failedSteps === 0 && assertionFailures.length === 0 ? 'PASSED' : 'FAILED',
+      params,
+      duration: Date.now() - started,
+      ...(failedSteps ? { failedSteps } : {}),
+      ...(error ? { error } : {}),
+      ...(assertionFailures.length ? { failedAssertions: assertionFailures } : {}),
+    };
+    ctx.logger(entry.status === 'PASSED' ? `✅ ${label} passed` : `❌ ${label} failed${error ? `: ${error.split('\n')[0]}` : ''}`);
+
+    if (ctx.input.testResults) {
+      entry.testResult = path.relative(ctx.baseDir, await writeTestResult(ctx.baseDir, rowTestResult(ctx, resolvedPath, entry, outcome)));
+    }
+    matrix.push(entry);
+  }
+
+  const passed = matrix.filter(entry => entry.status === 'PASSED').length;
+  const failed = matrix.length - passed;
+  ctx.logger(`📊 ${name}: ${passed} of ${matrix.length} row(s) passed\n${matrix
+    .map(entry => `  ${entry.status === 'PASSED' ? '✅' : '❌'} row ${entry.row}  ${describeParams(entry.params)}`)
+    .join('\n')}`);
+
+  return {
+    content: [{
+      type: 'text' as const,
+      text: JSON.stringify({
+        success: failed === 0,
+        shortcutPath: resolvedPath,
+        dataset: {
+          source: dataset.source,
+          rows: matrix.length,
+          passed,
+          failed,
+          ...(ctx.input.freshContext ? { freshContext: true } : {}),
+        },
+        defaults,
+        matrix,
+      }, null, 2),
+    }],
+  };
+}
+
+// A dataset row in the format create-test-result writes, so generate-summary-report includes it
+function rowTestResult(ctx: ActionContext<ShortcutInput>, resolvedPath: string, entry: DatasetRowOutcome, outcome?: ShortcutOutcome): TestResultRecord {
+  const timestamp = new Date().toISOString();
+  const results = outcome?.results ?? [];
+  const steps: TestResultRecord['steps'] = results.map((result, index) => ({
+    stepNumber: Number(result.step),
+    description: describeCommand(outcome!.commands[index]),
+    action: result.type,
+    status: result.success ? 'PASSED' : 'FAILED',
+    duration: outcome!.durations[index],
+    screenshot: result.screenshot,
+    error: result.error ?? null,
+    timestamp,
+  }));
+  // A row that failed before its first step (bad values, missing auth profile) still shows why
+  if (!steps.length && entry.error) {
+    steps.push({ stepNumber: 1, description: entry.error, action: 'load', status: 'FAILED', duration: 0, error: entry.error, timestamp });
+  }
+
+  const id = `${path.basename(resolvedPath).replace(/\.ya?ml$/i, '')}-row-${entry.row}`;
+  return {
+    testCase: {
+      name: `${shortcutName(ctx.baseDir, resolvedPath)} [row ${entry.row}]`,
+      file: path.relative(ctx.baseDir, resolvedPath),
+      id,
+      executedAt: timestamp,
+      environment: '',
+    },
+    summary: {
+      status: entry.status,
+      totalSteps: outcome?.commands.length ?? steps.length,
+      executedSteps: steps.length,
+      passedSteps: steps.filter(step => step.status === 'PASSED').length,
+      failedSteps: steps.filter(step => step.status === 'FAILED').length,
+      duration: entry.duration,
+      browser: ctx.session.browserName,
+    },
+    testData: Object.fromEntries(Object.entries(entry.params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])),
+    steps,
+    metadata: {
+      generatedBy: 'Playwrightium Dataset Run',
+      reportVersion: '1.0.0',
+    },
+  };
+}
+
+// "term=\"shoes\", limit=10"
+function describeParams(params: Record<string, unknown>) {
+  return Object.entries(params).map(([name, value]) => `${name}=${JSON.stringify(value)}`).join(', ');
+}
+
 export default executeShortcut;
@@ -31,6 +31,10 @@ interface TestResult {
     error?: string | null;
     timestamp: string;
   }>;
+  artifacts?: {
+    har?: string;
+    trace?: string;
+  };
   metadata: {
     generatedBy: string;
     reportVersion: string;
@@ -56,7 +60,7 @@ interface TestStatistics {
 const generateSummaryReport: PlaywrightActionDefinition = {
   name: 'generate-summary-report',
   title: 'Generate Test Summary Report',
-  description: 'Processes JSON test results and generates a comprehensive HTML summary report with statistics, test details, and screenshots.',
+  description: 'Processes JSON test results and generates a comprehensive HTML summary report with statistics, test details, screenshots, and links to attached HAR and trace files.',
   inputSchema: z.object({
     jsonDir: z.string().optional().describe('Path to JSON results directory (default: test-results/json)'),
     outputFile: z.string().optional().describe('Path to output HTML file (default: test-results/summary-report.html)'),
@@ -94,8 +98,14 @@ const generateSummaryReport: PlaywrightActionDefinition = {
     // Calculate statistics
     const stats = calculateStatistics(testResults);
 
+    // Artifact paths are stored relative to the workspace, links must be relative to the report
+    const artifactHref = (file: string) => path.relative(
+      path.dirname(outputPath),
+      path.isAbsolute(file) ? file : path.join(baseDir, file)
+    ).split(path.sep).join('/');
+
     // Generate HTML report
-    const htmlContent = generateHtmlTemplate(stats, testResults);
+    const htmlContent = generateHtmlTemplate(stats, testResults, artifactHref);
 
     // Ensure output directory exists
     await fs.mkdir(path.dirname(outputPath), { recursive: true });
@@ -181,7 +191,7 @@ function calculateStatistics(results: TestResult[]): TestStatistics {
   };
 }
 
-function generateHtmlTemplate(stats: TestStatistics, results: TestResult[]): string {
+function generateHtmlTemplate(stats: TestStatistics, results: TestResult[], artifactHref: (file: string) => string): string {
   // Sort tests by execution time (most recent first)
   const sortedResults = [...results].sort((a, b) => {
     const dateA = new Date(a.testCase.executedAt).getTime();
@@ -189,7 +199,7 @@ function generateHtmlTemplate(stats: TestStatistics, results: TestResult[]): str
     return dateB - dateA;
   });
 
-  const testRowsHtml = sortedResults.map((result, idx) => generateTestRow(result, idx + 1)).join('');
+  const testRowsHtml = sortedResults.map((result, idx) => generateTestRow(result, idx + 1, artifactHref)).join('');
 
   const passRateColor = stats.passRate >= 80 ? '#27ae60' : stats.passRate >= 50 ? '#f39c12' : '#e74c3c';
 
@@ -408,8 +418,8 @@ function generateHtmlTemplate(stats: TestStatistics, results: TestResult[]): str
 </html>`;
 }
 
-function generateTestRow(result: TestResult, idx: number): string {
-  const { testCase, summary, steps, testData } = result;
+function generateTestRow(result: TestResult, idx: number, artifactHref: (file: string) => string): string {
+  const { testCase, summary, steps, testData, artifacts } = result;
   const status = summary.status;
   const statusBadgeClass = status === 'PASSED'
     ? 'bg-gradient-to-r from-emerald-500 to-teal-500'
@@ -466,6 +476,23 @@ function generateTestRow(result: TestResult, idx: number): string {
     ? `<div class="bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-6 mb-6 shadow-md border border-gray-200"><h4 class="text-xl font-bold text-gray-900 mb-4 pb-3 border-b-2 border-indigo-500 flex items-center gap-2"><svg class="w-6 h-6 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>Test Data:</h4>${Object.entries(testData).map(([k, v]) => `<div class="py-2 text-gray-700 flex items-center gap-2"><svg class="w-4 h-4 text-indigo-600" fill="currentColor" viewBox="0 0 20 20"><path fill-rule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clip-rule="evenodd"/></svg><strong class="text-gray-900 font-semibold">${k}:</strong> <span class="font-medium">${v}</span></div>`).join('')}</div>`
     : '';
 
+  // Generate artifacts HTML
+  const artifactLinks = [
+    artifacts?.har
+      ? `<a href="${artifactHref(artifacts.har)}" download onclick="event.stopPropagation()" class="inline-flex items-center gap-1.5 px-3 py-1.5 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-semibold rounded-lg shadow-md hover:shadow-lg transition-all duration-200 text-xs"><svg class="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg> HAR: ${path.basename(artifacts.har)}</a>`
+      : '',
+    artifacts?.trace
+      ? `<a href="${artifactHref(artifacts.trace)}" download onclick="event.stopPropagation()" title="Open with: npx playwright show-trace ${artifacts.trace}" class="inline-flex items-center gap-1.5 px-3 py-1.5 bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 text-white font-semibold rounded-lg shadow-md hover:shadow-lg transition-all duration-200 text-xs"><svg class="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path></svg> Trace: ${path.basename(artifacts.trace)}</a>`
+      : ''
+  ].filter(Boolean);
+  // Failed tests link to their trace right from the summary row
+  const traceLinkHtml = status === 'FAILED' && artifacts?.trace
+    ? `<a href="${artifactHref(artifacts.trace)}" download onclick="event.stopPropagation()" title="Open with: npx playwright show-trace ${artifacts.trace}" class="block mt-2 text-xs font-semibold text-rose-600 hover:text-rose-800 underline">View trace</a>`
+    : '';
+  const artifactsHtml = artifactLinks.length > 0
+    ? `<div class="flex flex-wrap items-center gap-3 mb-6"><span class="text-sm font-bold text-gray-900">Artifacts:</span>${artifactLinks.join('')}</div>`
+    : '';
+
   return `<tr class="test-row cursor-pointer hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50 transition-all duration-200 border-b border-gray-200" onclick="toggleDetails('details-${idx}')">
     <td class="py-5 px-6 font-bold text-gray-900 text-base border-r border-gray-200">${idx}</td>
     <td class="py-5 px-6 border-r border-gray-200">
@@ -473,7 +500,7 @@ function generateTestRow(result: TestResult, idx: number): string {
         <div class="text-xs text-gray-500 font-medium mt-1">${testCase.file}</div>
     </td>
     <td class="py-5 px-6 border-r border-gray-200"><span class="bg-gradient-to-r from-blue-600 to-cyan-600 text-white px-3 py-1.5 rounded-full text-xs font-bold shadow-sm">${testCase.environment}</span></td>
-    <td class="py-5 px-6 border-r border-gray-200"><span class="${statusBadgeClass} text-white px-4 py-2 rounded-full text-xs font-bold shadow-md">${status}</span></td>
+    <td class="py-5 px-6 border-r border-gray-200"><span class="${statusBadgeClass} text-white px-4 py-2 rounded-full text-xs font-bold shadow-md">${status}</span>${traceLinkHtml}</td>
     <td class="py-5 px-6 font-bold text-gray-700 text-base border-r border-gray-200">${summary.passedSteps}/${summary.totalSteps}</td>
     <td class="py-5 px-6 text-gray-700 font-semibold text-sm border-r border-gray-200">${durationSec}s</td>
     <td class="py-5 px-6 text-gray-600 text-xs font-medium border-r border-gray-200">${formattedDate}</td>
@@ -488,6 +515,7 @@ function generateTestRow(result: TestResult, idx: number): string {
     <td colspan="8" class="py-8 px-10">
         <div class="bg-white rounded-2xl p-8 shadow-xl border border-gray-200">
             ${testDataHtml}
+            ${artifactsHtml}
             <h4 class="text-xl font-bold text-gray-900 mb-5 pb-3 border-b-2 border-indigo-500 flex items-center gap-2"><svg class="w-6 h-6 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"></path></svg>Test Steps:</h4>
             ${stepsHtml}
         </div>
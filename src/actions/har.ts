@@ -0,0 +1,83 @@
+import path from 'path';
+import { z } from 'zod';
+import type { PlaywrightActionDefinition } from './types';
+import { startHarRecording, startHarReplay, stopHarRecording, stopHarReplay } from '../har';
+
+/**
+ * Record a session's traffic to a HAR file and replay it later without the backend
+ *
+ * Recordings are written to test-results/har/ so they sit next to the test results
+ * and can be attached to them (create-test-result set-artifacts). Replays serve
+ * matching requests from the HAR with context.routeFromHAR().
+ */
+const har: PlaywrightActionDefinition = {
+  name: 'har',
+  title: 'HAR Record / Replay',
+  description: 'Record the current session\'s network traffic to a HAR file under test-results/har/, or replay a HAR so requests are answered from the recording instead of the backend (notFound: fallback to the network, or abort). Use replay to make shortcuts deterministic and runnable offline.',
+  inputSchema: z.object({
+    action: z.enum(['record', 'stop-recording', 'replay', 'stop-replay', 'status']).describe('record (start recording), stop-recording (write the HAR file), replay (serve requests from a HAR), stop-replay (back to the network), status'),
+    name: z.string().optional().describe('For record: HAR file name without extension (default: <session>-<timestamp>)'),
+    file: z.string().optional().describe('For replay: HAR file, relative to test-results/har/ or the workspace root (required for replay)'),
+    urlFilter: z.string().optional().describe('For record: only record requests matching this URL glob or /regex/'),
+    content: z.enum(['embed', 'omit']).optional().describe('For record: keep response bodies in the HAR (embed, default, needed for replay) or drop them (omit)'),
+    url: z.string().optional().describe('For replay: only serve requests matching this URL glob or /regex/ from the HAR'),
+    notFound: z.enum(['fallback', 'abort']).optional().describe('For replay: what to do with requests missing from the HAR (default: abort)'),
+  }),
+  async run(ctx) {
+    const { action, name, file, urlFilter, content, url, notFound } = ctx.input;
+    const relative = (target: string) => path.relative(ctx.baseDir, target);
+    let result: Record<string, unknown> = {};
+
+    switch (action) {
+      case 'record': {
+        const recording = await startHarRecording(ctx.session, ctx.baseDir, name, { urlFilter, content });
+        ctx.logger(`⏺️  Recording HAR to ${relative(recording.path)}`);
+        result = { path: relative(recording.path), startedAt: recording.startedAt };
+        break;
+      }
+
+      case 'stop-recording': {
+        const recording = await stopHarRecording(ctx.session);
+        ctx.logger(`💾 Saved HAR ${relative(recording.path)} (${recording.entries} requests)`);
+        result = { path: relative(recording.path), startedAt: recording.startedAt, entries: recording.entries };
+        break;
+      }
+
+      case 'replay': {
+        if (!file) {
+          throw new Error('file is required to replay a HAR. Use a file from test-results/har/.');
+        }
+        const replay = await startHarReplay(ctx.session, ctx.baseDir, file, { notFound, url });
+        ctx.logger(`▶️  Replaying ${relative(replay.path)} (notFound: ${replay.notFound})`);
+        result = { path: relative(replay.path), notFound: replay.notFound, url: replay.url ?? null };
+        break;
+      }
+
+      case 'stop-replay': {
+        const replay = await stopHarReplay(ctx.session);
+        ctx.logger(replay ? `⏹️  Stopped replaying ${relative(replay.path)}` : 'ℹ️  No HAR replay was active');
+        result = { stopped: replay ? relative(replay.path) : null };
+        break;
+      }
+
+      case 'status':
+        break;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          action,
+          session: ctx.session.name,
+          ...result,
+          recording: ctx.session.harRecording ? relative(ctx.session.harRecording.path) : null,
+          replaying: ctx.session.harReplay ? relative(ctx.session.harReplay.path) : null,
+        }, null, 2),
+      }],
+    };
+  },
+};
+
+export default har;
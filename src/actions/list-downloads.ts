@@ -0,0 +1,47 @@
+import path from 'path';
+import { z } from 'zod';
+import type { PlaywrightActionDefinition } from './types';
+import { downloadCount, settleDownloads } from '../downloads';
+
+/**
+ * List the files downloaded in the current session
+ *
+ * Every download started by a page of the session is saved to the session's
+ * downloads folder (default .playwright-mcp/downloads/<session>/, see --downloads-dir).
+ */
+const listDownloads: PlaywrightActionDefinition = {
+  name: 'list-downloads',
+  title: 'List Downloads',
+  description: 'List files downloaded in the current browser session with name, saved path, size, MIME type and source URL. Downloads are saved automatically under the downloads folder (default .playwright-mcp/downloads/<session>/); the last 100 are listed.',
+  inputSchema: z.object({
+    sinceStep: z.number().int().optional().describe('Only downloads triggered from this step (tool call) onwards'),
+  }),
+  async run(ctx) {
+    const { sinceStep } = ctx.input;
+
+    // Include downloads that are still being written
+    await settleDownloads(ctx.session, 0);
+    const downloads = ctx.session.downloads
+      .filter(download => sinceStep === undefined || download.step >= sinceStep)
+      .map(download => ({
+        ...download,
+        path: download.path ? path.relative(ctx.baseDir, download.path) : null,
+      }));
+
+    ctx.logger(`📥 ${downloads.length} of ${downloadCount(ctx.session)} download(s) in session "${ctx.session.name}"`);
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          session: ctx.session.name,
+          folder: path.relative(ctx.baseDir, ctx.session.downloadsDir),
+          downloads,
+        }, null, 2),
+      }],
+    };
+  },
+};
+
+export default listDownloads;
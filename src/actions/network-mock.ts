@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import type { PlaywrightActionDefinition } from './types';
+import { addMockRule, clearMockRules, removeMockRule } from '../network-mocks';
+
+/**
+ * Intercept network requests in the current session to stub backend responses
+ *
+ * Rules match a URL glob or /regex/ (and optionally a method) and either fulfill
+ * the request with a status, headers and body (inline or from .playwright-mcp/mocks/),
+ * abort it, or delay it. Rules stay active for the session until removed.
+ */
+const networkMock: PlaywrightActionDefinition = {
+  name: 'network-mock',
+  title: 'Network Mocking',
+  description: 'Add, list, remove or clear network interception rules for the current session. A rule matches a URL glob ("**/api/orders*") or regex ("/\\/api\\/v\\d+\\//") and an optional method, then fulfills with status/headers/body (inline or bodyFile from .playwright-mcp/mocks/), aborts, or delays the request. Use it to test error paths and slow backends.',
+  inputSchema: z.object({
+    action: z.enum(['add', 'list', 'remove', 'clear']).describe('add (install a rule), list (show rules and hit counts), remove (by id), clear (remove all rules)'),
+    id: z.string().optional().describe('Rule id. Optional for add (generated when omitted, replaces an existing rule with the same id); required for remove'),
+    url: z.string().optional().describe('URL glob like "**/api/orders*" or regex like "/orders\\/\\d+$/i" (required for add)'),
+    method: z.string().optional().describe('HTTP method to match, e.g. POST (default: any)'),
+    status: z.number().int().min(100).max(599).optional().describe('Response status to fulfill with (default: 200 when a body is given)'),
+    headers: z.record(z.string()).optional().describe('Response headers'),
+    body: z.any().optional().describe('Response body; objects and arrays are sent as JSON'),
+    bodyFile: z.string().optional().describe('File under .playwright-mcp/mocks/ to send as the body (content type from the extension)'),
+    contentType: z.string().optional().describe('Response content type'),
+    abort: z.union([z.boolean(), z.string()]).optional().describe('Abort the request; true or a Playwright error code (failed, timedout, connectionrefused, ...)'),
+    delay: z.number().int().nonnegative().optional().describe('Delay in ms before responding; alone it delays the real request'),
+    times: z.number().int().positive().optional().describe('Only handle the first N matching requests'),
+  }),
+  async run(ctx) {
+    const { action, id, ...spec } = ctx.input;
+
+    switch (action) {
+      case 'add': {
+        if (!spec.url) {
+          throw new Error('url is required to add a mock rule');
+        }
+        const rule = await addMockRule(ctx.session, ctx.baseDir, { id, ...spec, url: spec.url });
+        ctx.logger(`🕸️  Added mock ${rule.id}: ${rule.method ?? 'ANY'} ${rule.url}`);
+        break;
+      }
+
+      case 'remove': {
+        if (!id) {
+          throw new Error('id is required to remove a mock rule. Use action="list" to see rule ids.');
+        }
+        if (!await removeMockRule(ctx.session, id)) {
+          throw new Error(`No mock rule with id "${id}"`);
+        }
+        ctx.logger(`🗑️  Removed mock ${id}`);
+        break;
+      }
+
+      case 'clear': {
+        const removed = await clearMockRules(ctx.session);
+        ctx.logger(`🧹 Removed ${removed} mock rule(s)`);
+        break;
+      }
+
+      case 'list':
+        ctx.logger(`🕸️  ${ctx.session.mockRules.length} mock rule(s) active`);
+        break;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          action,
+          session: ctx.session.name,
+          rules: ctx.session.mockRules,
+        }, null, 2),
+      }],
+    };
+  },
+};
+
+export default networkMock;
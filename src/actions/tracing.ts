@@ -0,0 +1,62 @@
+import path from 'path';
+import { z } from 'zod';
+import type { PlaywrightActionDefinition } from './types';
+import { startTracing, stopTracing } from '../tracing';
+
+/**
+ * Record a Playwright trace of the current session
+ *
+ * Traces include screenshots, DOM snapshots and sources and are saved to
+ * test-results/traces/<name>.zip. Attach them to a test result with
+ * create-test-result set-artifacts so the summary report links failed tests to them.
+ */
+const tracing: PlaywrightActionDefinition = {
+  name: 'tracing',
+  title: 'Playwright Tracing',
+  description: 'Start or stop Playwright tracing (screenshots, snapshots and sources) for the current session. Stopping saves a trace.zip under test-results/traces/ that opens with "npx playwright show-trace". Start before a test, stop after it and attach the file with create-test-result set-artifacts.',
+  inputSchema: z.object({
+    action: z.enum(['start', 'stop', 'status']).describe('start (begin tracing), stop (save the trace file), status'),
+    title: z.string().optional().describe('For start: title shown in the trace viewer (e.g., the test name)'),
+    name: z.string().optional().describe('For stop: trace file name without extension (default: <session>-<timestamp>)'),
+  }),
+  async run(ctx) {
+    const { action, title, name } = ctx.input;
+    let result: Record<string, unknown> = {};
+
+    switch (action) {
+      case 'start': {
+        const trace = await startTracing(ctx.session, title);
+        ctx.logger(`⏺️  Tracing session "${ctx.session.name}"${title ? `: ${title}` : ''}`);
+        result = { startedAt: trace.startedAt };
+        break;
+      }
+
+      case 'stop': {
+        const trace = await stopTracing(ctx.session, ctx.baseDir, name);
+        const tracePath = path.relative(ctx.baseDir, trace.path);
+        ctx.logger(`💾 Saved trace ${tracePath}`);
+        ctx.logger(`   View with: npx playwright show-trace ${tracePath}`);
+        result = { path: tracePath, startedAt: trace.startedAt };
+        break;
+      }
+
+      case 'status':
+        break;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          action,
+          session: ctx.session.name,
+          ...result,
+          tracing: Boolean(ctx.session.tracing),
+        }, null, 2),
+      }],
+    };
+  },
+};
+
+export default tracing;
@@ -0,0 +1,273 @@
+import type { Locator, Page } from 'playwright';
+import { z } from 'zod';
+
+import type { AssertionFailure, CommandBase, CommandContext, CommandDefinition } from './actions/types.js';
+import { toRegExp } from './variables.js';
+
+/** Default for how long an assertion keeps checking, like Playwright's expect() */
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * Thrown by a hard assertion that failed; `failure` carries what was expected and found
+ */
+export class AssertionError extends Error {
+  constructor(readonly failure: AssertionFailure) {
+    super(describeAssertionFailure(failure));
+    this.name = 'AssertionError';
+  }
+}
+
+const assertionOptions = {
+  timeout: z.number().int().nonnegative().optional().describe(`Milliseconds to keep checking until the expectation holds (default: ${DEFAULT_TIMEOUT})`),
+  soft: z.boolean().optional().describe('Record a failure and go on with the next command instead of failing the step')
+};
+const textExpectation = {
+  equals: z.string().optional().describe('Exact text, after trimming and collapsing whitespace'),
+  contains: z.string().optional().describe('Text that must appear'),
+  matches: z.string().optional().describe('Regular expression, as /pattern/flags or a bare pattern'),
+  ignoreCase: z.boolean().optional().describe('Compare equals and contains case-insensitively')
+};
+
+type TextExpectation = { equals?: string; contains?: string; matches?: string; ignoreCase?: boolean };
+
+/** What an assertion checks: a description of the expectation, how to read the actual value and when it holds */
+interface Expectation {
+  expected: string;
+  /** Reads the current value; `remaining` is what is left of the timeout, for Playwright calls that wait. */
+  read: (remaining: number) => Promise<unknown>;
+  holds: (actual: any) => boolean;
+}
+
+interface AssertionDefinition<TShape extends z.ZodRawShape> {
+  type: string;
+  description: string;
+  schema: TShape;
+  validate?: (command: z.infer<z.ZodObject<TShape>> & CommandBase) => string | undefined;
+  expect: (command: z.infer<z.ZodObject<TShape>> & CommandBase, ctx: CommandContext) => Expectation;
+}
+
+// Adds timeout and soft to every assertion and turns its expectation into a command
+function assertion<TShape extends z.ZodRawShape>(definition: AssertionDefinition<TShape>): CommandDefinition<TShape & typeof assertionOptions> {
+  return {
+    type: definition.type,
+    description: definition.description,
+    schema: { ...definition.schema, ...assertionOptions },
+    validate: definition.validate,
+    async run(cmd, ctx) {
+      const { expected, read, holds } = definition.expect(cmd, ctx);
+      const { passed, actual } = await poll(ctx.page, cmd.timeout ?? DEFAULT_TIMEOUT, read, holds);
+      const selector = typeof cmd.selector === 'string' ? cmd.selector : undefined;
+      if (passed) {
+        await ctx.logger(`  ✔️  ${selector ? `${selector} ` : ''}${expected}`);
+        return { passed: true, expected, actual };
+      }
+
+      const failure: AssertionFailure = {
+        step: ctx.step,
+        assertion: definition.type,
+        ...(selector ? { selector } : {}),
+        expected,
+        actual,
+        soft: cmd.soft === true
+      };
+      if (!failure.soft) {
+        throw new AssertionError(failure);
+      }
+      ctx.state.assertionFailures.push(failure);
+      await ctx.logger(`  ⚠️  Soft assertion failed: ${describeAssertionFailure(failure)}`);
+      return { passed: false, soft: true, expected, actual };
+    }
+  };
+}
+
+/**
+ * Read the actual value until it meets the expectation or the timeout runs out.
+ * A read that throws (no matching element yet) counts as not met, reported as actual null.
+ */
+async function poll(page: Page, timeout: number, read: Expectation['read'], holds: Expectation['holds']) {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    let actual: unknown = null;
+    let found = true;
+    try {
+      actual = await read(Math.max(1, deadline - Date.now()));
+    } catch {
+      found = false;
+    }
+    if (found && holds(actual)) {
+      return { passed: true, actual };
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return { passed: false, actual };
+    }
+    await page.waitForTimeout(Math.min(100, remaining));
+  }
+}
+
+function checkTextExpectation(expectation: TextExpectation) {
+  const given = (['equals', 'contains', 'matches'] as const).filter(field => expectation[field] !== undefined);
+  if (given.length !== 1) {
+    return 'give exactly one of equals, contains or matches';
+  }
+  if (expectation.matches !== undefined) {
+    try {
+      toRegExp(expectation.matches);
+    } catch (error) {
+      return `invalid regular expression: ${(error as Error).message}`;
+    }
+  }
+  return undefined;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+function textMatcher(expectation: TextExpectation, prefix = ''): Pick<Expectation, 'expected' | 'holds'> {
+  const fold = (text: string) => (expectation.ignoreCase ? text.toLowerCase() : text);
+  const suffix = expectation.ignoreCase ? ' (ignoring case)' : '';
+  if (expectation.matches !== undefined) {
+    const pattern = toRegExp(expectation.matches);
+    return { expected: `${prefix}matches ${pattern}`, holds: actual => typeof actual === 'string' && actual.search(pattern) >= 0 };
+  }
+  if (expectation.contains !== undefined) {
+    const wanted = fold(expectation.contains);
+    return { expected: `${prefix}contains ${JSON.stringify(expectation.contains)}${suffix}`, holds: actual => typeof actual === 'string' && fold(actual).includes(wanted) };
+  }
+  const wanted = fold(normalize(expectation.equals ?? ''));
+  return { expected: `${prefix}equals ${JSON.stringify(expectation.equals)}${suffix}`, holds: actual => typeof actual === 'string' && fold(normalize(actual)) === wanted };
+}
+
+const first = (locator: Locator) => locator.first();
+
+/**
+ * Commands that check the page and fail (or, with soft: true, record a failure) when an expectation does not hold
+ */
+export const ASSERTION_COMMANDS: CommandDefinition<any>[] = [
+  assertion({
+    type: 'assert_text',
+    description: 'Check the text content of an element',
+    schema: { selector: z.string(), ...textExpectation },
+    validate: checkTextExpectation,
+    expect: (cmd, { locate }) => ({
+      ...textMatcher(cmd, 'text '),
+      read: async timeout => normalize(await first(locate(cmd.selector)).textContent({ timeout }) ?? '')
+    })
+  }),
+  assertion({
+    type: 'assert_url',
+    description: 'Check the current page URL',
+    schema: textExpectation,
+    validate: checkTextExpectation,
+    expect: (cmd, { page }) => ({ ...textMatcher(cmd, 'URL '), read: async () => page.url() })
+  }),
+  assertion({
+    type: 'assert_title',
+    description: 'Check the page title',
+    schema: textExpectation,
+    validate: checkTextExpectation,
+    expect: (cmd, { page }) => ({ ...textMatcher(cmd, 'title '), read: () => page.title() })
+  }),
+  assertion({
+    type: 'assert_visible',
+    description: 'Check that an element is visible',
+    schema: { selector: z.string() },
+    expect: (cmd, { locate }) => ({
+      expected: 'is visible',
+      read: () => first(locate(cmd.selector)).isVisible(),
+      holds: visible => visible === true
+    })
+  }),
+  assertion({
+    type: 'assert_hidden',
+    description: 'Check that an element is hidden or not on the page',
+    schema: { selector: z.string() },
+    expect: (cmd, { locate }) => ({
+      expected: 'is hidden',
+      read: async () => ((await first(locate(cmd.selector)).isVisible()) ? 'visible' : 'hidden'),
+      holds: state => state === 'hidden'
+    })
+  }),
+  assertion({
+    type: 'assert_enabled',
+    description: 'Check that an element is enabled (enabled: false checks that it is disabled)',
+    schema: { selector: z.string(), enabled: z.boolean().optional().describe('Expected state (default: true)') },
+    expect: (cmd, { locate }) => {
+      const enabled = cmd.enabled ?? true;
+      return {
+        expected: enabled ? 'is enabled' : 'is disabled',
+        read: async timeout => ((await first(locate(cmd.selector)).isEnabled({ timeout })) ? 'enabled' : 'disabled'),
+        holds: state => state === (enabled ? 'enabled' : 'disabled')
+      };
+    }
+  }),
+  assertion({
+    type: 'assert_count',
+    description: 'Check how many elements match a selector',
+    schema: {
+      selector: z.string(),
+      count: z.number().int().nonnegative().optional().describe('Exact number of matches'),
+      min: z.number().int().nonnegative().optional(),
+      max: z.number().int().nonnegative().optional()
+    },
+    validate: cmd => (cmd.count === undefined && cmd.min === undefined && cmd.max === undefined
+      ? 'give count, min or max'
+      : cmd.count !== undefined && (cmd.min !== undefined || cmd.max !== undefined)
+        ? 'give either count or min/max'
+        : undefined),
+    expect: (cmd, { locate }) => ({
+      expected: cmd.count !== undefined
+        ? `count == ${cmd.count}`
+        : [cmd.min !== undefined ? `count >= ${cmd.min}` : '', cmd.max !== undefined ? `count <= ${cmd.max}` : ''].filter(Boolean).join(' and '),
+      read: () => locate(cmd.selector).count(),
+      holds: (count: number) => (cmd.count === undefined || count === cmd.count)
+        && (cmd.min === undefined || count >= cmd.min)
+        && (cmd.max === undefined || count <= cmd.max)
+    })
+  }),
+  assertion({
+    type: 'assert_attribute',
+    description: 'Check the value of an element attribute',
+    schema: { selector: z.string(), attribute: z.string(), ...textExpectation },
+    validate: checkTextExpectation,
+    expect: (cmd, { locate }) => ({
+      ...textMatcher(cmd, `${cmd.attribute} `),
+      // A missing attribute reads as null and fails every expectation
+      read: timeout => first(locate(cmd.selector)).getAttribute(cmd.attribute, { timeout })
+    })
+  }),
+  assertion({
+    type: 'assert_value',
+    description: 'Check the current value of an input, textarea or select',
+    schema: { selector: z.string(), ...textExpectation },
+    validate: checkTextExpectation,
+    expect: (cmd, { locate }) => ({
+      ...textMatcher(cmd, 'value '),
+      read: timeout => first(locate(cmd.selector)).inputValue({ timeout })
+    })
+  })
+];
+
+/** One line per failed assertion, as shown in action results */
+export function describeAssertionFailure(failure: AssertionFailure) {
+  const target = failure.selector ? ` ${JSON.stringify(failure.selector)}` : '';
+  return `${failure.assertion}${target}: expected ${failure.expected}, got ${JSON.stringify(failure.actual)}`;
+}
+
+/** Failed assertions as a list, one "- step 4 (soft): ..." line each */
+export function listAssertionFailures(failures: AssertionFailure[]) {
+  return failures
+    .map(failure => `- step ${failure.step}${failure.soft ? ' (soft)' : ''}: ${describeAssertionFailure(failure)}`)
+    .join('\n');
+}
+
+/**
+ * The assertion behind a failed step, looking through the blocks and calls it happened in
+ * (StepFailure and ShortcutCallError keep the error they wrap in `error`)
+ */
+export function findAssertionError(failure: unknown): AssertionError | undefined {
+  let error = failure;
+  while (error instanceof Error && !(error instanceof AssertionError) && 'error' in error) {
+    error = (error as { error: unknown }).error;
+  }
+  return error instanceof AssertionError ? error : undefined;
+}
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BrowserContext } from 'playwright';
+
+import type { ActionSession } from './actions/types.js';
+
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * A saved storageState profile (.playwright-mcp/auth/<name>.json).
+ * The file is a regular Playwright storage state with savedAt/expiresAt added,
+ * so it can also be passed to Playwright directly.
+ */
+export interface AuthProfile extends StorageState {
+  name: string;
+  savedAt: string;
+  expiresAt: string | null;
+}
+
+export interface AuthProfileSummary {
+  name: string;
+  path: string;
+  savedAt: string;
+  expiresAt: string | null;
+  expired: boolean;
+  cookies: number;
+  origins: number;
+}
+
+export function authProfilesDir(baseDir: string) {
+  return path.join(baseDir, '.playwright-mcp', 'auth');
+}
+
+export function authProfilePath(baseDir: string, name: string) {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid auth profile name "${name}". Use letters, numbers, dots, dashes and underscores only.`);
+  }
+  return path.join(authProfilesDir(baseDir), `${name}.json`);
+}
+
+export async function saveAuthProfile(baseDir: string, name: string, state: StorageState, expiresInMinutes?: number): Promise<AuthProfile> {
+  const filePath = authProfilePath(baseDir, name);
+  const savedAt = new Date();
+  const profile: AuthProfile = {
+    ...state,
+    name,
+    savedAt: savedAt.toISOString(),
+    expiresAt: expiresInMinutes ? new Date(savedAt.getTime() + expiresInMinutes * 60_000).toISOString() : null
+  };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(profile, null, 2), 'utf-8');
+  return profile;
+}
+
+export async function loadAuthProfile(baseDir: string, name: string): Promise<AuthProfile> {
+  const filePath = authProfilePath(baseDir, name);
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    throw new Error(`Auth profile "${name}" not found at ${filePath}. Log in and save it with auth-state action='save' first.`);
+  }
+
+  const data = JSON.parse(raw);
+  return {
+    cookies: data.cookies ?? [],
+    origins: data.origins ?? [],
+    name,
+    savedAt: data.savedAt ?? new Date(0).toISOString(),
+    expiresAt: data.expiresAt ?? null
+  };
+}
+
+export async function deleteAuthProfile(baseDir: string, name: string): Promise<boolean> {
+  try {
+    await fs.unlink(authProfilePath(baseDir, name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function listAuthProfiles(baseDir: string): Promise<AuthProfileSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(authProfilesDir(baseDir));
+  } catch {
+    return [];
+  }
+
+  const profiles: AuthProfileSummary[] = [];
+  for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+    const name = path.basename(file, '.json');
+    try {
+      const profile = await loadAuthProfile(baseDir, name);
+      profiles.push({
+        name,
+        path: authProfilePath(baseDir, name),
+        savedAt: profile.savedAt,
+        expiresAt: profile.expiresAt,
+        expired: isAuthProfileExpired(profile),
+        cookies: profile.cookies.length,
+        origins: profile.origins.length
+      });
+    } catch {
+      // Skip files that are not valid profiles
+    }
+  }
+  return profiles;
+}
+
+/**
+ * A profile is expired once its expiresAt has passed, or when it is older than maxAgeMinutes
+ */
+export function isAuthProfileExpired(profile: AuthProfile, maxAgeMinutes?: number): boolean {
+  const now = Date.now();
+  if (profile.expiresAt && new Date(profile.expiresAt).getTime() <= now) {
+    return true;
+  }
+  if (maxAgeMinutes !== undefined && new Date(profile.savedAt).getTime() + maxAgeMinutes * 60_000 <= now) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Load a profile into the session by recreating its context with the saved storage state.
+ * Does nothing when the session already runs with that profile, unless force is set.
+ */
+export async function useAuthProfile(
+  session: ActionSession,
+  baseDir: string,
+  name: string,
+  options: { maxAgeMinutes?: number; force?: boolean } = {}
+): Promise<{ profile: AuthProfile; loaded: boolean }> {
+  const profile = await loadAuthProfile(baseDir, name);
+  if (isAuthProfileExpired(profile, options.maxAgeMinutes)) {
+    throw new Error(`Auth profile "${name}" expired (saved ${profile.savedAt}${profile.expiresAt ? `, expires ${profile.expiresAt}` : ''}). Log in again and save it with auth-state action='save'.`);
+  }
+
+  if (session.authProfile === name && !options.force) {
+    return { profile, loaded: false };
+  }
+
+  await session.recreateContext({ storageState: { cookies: profile.cookies, origins: profile.origins } });
+  session.authProfile = name;
+  return { profile, loaded: true };
+}
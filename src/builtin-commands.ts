@@ -0,0 +1,337 @@
+import path from 'path';
+import type { Page } from 'playwright';
+import { z } from 'zod';
+
+import type { CommandDefinition, DownloadRecord } from './actions/types.js';
+import { parseDialogPolicy } from './dialogs.js';
+import { waitForDownload } from './downloads.js';
+import { resolveEvaluationTarget } from './locators.js';
+
+// YAML turns `value: 12345` into a number; commands that type text take it as written
+const text = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+const waitUntil = z.enum(['load', 'domcontentloaded', 'networkidle', 'commit']).optional()
+  .describe('Load state to wait for (default: load, then network idle)');
+const timeout = z.number().int().nonnegative().optional().describe('Milliseconds to wait (default: 30000)');
+
+// Without waitUntil, navigation waits for the network to go idle after the load event
+async function settle(page: Page, waitUntil: string | undefined, timeout: number | undefined) {
+  if (waitUntil === undefined) {
+    await page.waitForLoadState('networkidle', { timeout });
+  }
+}
+
+// Keeps each command's input type instead of widening it to CommandDefinition<ZodRawShape>
+function command<TShape extends z.ZodRawShape>(definition: CommandDefinition<TShape>): CommandDefinition<TShape> {
+  return definition;
+}
+
+/**
+ * Download details as reported in command results, with the path relative to the base directory
+ */
+export function describeDownload(download: DownloadRecord, baseDir: string) {
+  return {
+    id: download.id,
+    name: download.name,
+    path: download.path ? path.relative(baseDir, download.path) : null,
+    size: download.size,
+    mimeType: download.mimeType,
+    url: download.url,
+    ...(download.error ? { error: download.error } : {})
+  };
+}
+
+/**
+ * Commands every browser-session call and shortcut understands
+ */
+export const BUILTIN_COMMANDS: CommandDefinition<any>[] = [
+  // Navigation
+  command({
+    type: 'navigate',
+    description: 'Go to a URL',
+    schema: { url: z.string(), waitUntil },
+    async run(cmd, { page, timeout }) {
+      await page.goto(cmd.url, { waitUntil: cmd.waitUntil, timeout });
+      await settle(page, cmd.waitUntil, timeout);
+      return { url: page.url() };
+    }
+  }),
+  command({
+    type: 'navigate_back',
+    description: 'Go back in history',
+    schema: { waitUntil },
+    async run(cmd, { page, timeout }) {
+      await page.goBack({ waitUntil: cmd.waitUntil, timeout });
+      await settle(page, cmd.waitUntil, timeout);
+      return { url: page.url() };
+    }
+  }),
+  command({
+    type: 'reload',
+    description: 'Reload the page',
+    schema: { waitUntil },
+    async run(cmd, { page, timeout }) {
+      await page.reload({ waitUntil: cmd.waitUntil, timeout });
+      await settle(page, cmd.waitUntil, timeout);
+      return { reloaded: page.url() };
+    }
+  }),
+  command({
+    type: 'get_url',
+    description: 'Read the current URL',
+    schema: {},
+    capture: result => result.url,
+    async run(_cmd, { page, logger }) {
+      const url = page.url();
+      await logger(`  🔗 URL: ${url}`);
+      return { url };
+    }
+  }),
+  command({
+    type: 'get_title',
+    description: 'Read the page title',
+    schema: {},
+    capture: result => result.title,
+    async run(_cmd, { page, logger }) {
+      const title = await page.title();
+      await logger(`  📄 Title: ${title}`);
+      return { title };
+    }
+  }),
+
+  // Interaction
+  command({
+    type: 'click',
+    description: 'Click an element',
+    schema: {
+      selector: z.string(),
+      button: z.enum(['left', 'right', 'middle']).optional(),
+      clickCount: z.number().int().positive().optional()
+    },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).click({ button: cmd.button, clickCount: cmd.clickCount, timeout });
+      return { clicked: cmd.selector };
+    }
+  }),
+  command({
+    type: 'type',
+    description: 'Type text key by key',
+    schema: {
+      selector: z.string(),
+      value: text,
+      delay: z.number().int().nonnegative().optional().describe('Milliseconds between keystrokes (default: 50)')
+    },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).pressSequentially(cmd.value, { delay: cmd.delay ?? 50, timeout });
+      return { typed: `${cmd.value.length} characters` };
+    }
+  }),
+  command({
+    type: 'fill',
+    description: 'Set an input\'s value at once',
+    schema: { selector: z.string(), value: text },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).fill(cmd.value, { timeout });
+      return { filled: cmd.selector };
+    }
+  }),
+  command({
+    type: 'press_key',
+    description: 'Press a key or combination such as Enter or Control+A',
+    schema: { key: z.string() },
+    async run(cmd, { page }) {
+      await page.keyboard.press(cmd.key);
+      return { pressed: cmd.key };
+    }
+  }),
+  command({
+    type: 'hover',
+    description: 'Move the mouse over an element',
+    schema: { selector: z.string() },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).hover({ timeout });
+      return { hovered: cmd.selector };
+    }
+  }),
+
+  // Selection
+  command({
+    type: 'check',
+    description: 'Check a checkbox or radio button',
+    schema: { selector: z.string() },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).check({ timeout });
+      return { checked: cmd.selector };
+    }
+  }),
+  command({
+    type: 'uncheck',
+    description: 'Uncheck a checkbox',
+    schema: { selector: z.string() },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).uncheck({ timeout });
+      return { unchecked: cmd.selector };
+    }
+  }),
+  command({
+    type: 'select_option',
+    description: 'Choose one or more options of a <select> by value or label',
+    schema: { selector: z.string(), value: z.union([text, z.array(text)]) },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).selectOption(cmd.value, { timeout });
+      return { selected: cmd.value };
+    }
+  }),
+
+  // Advanced
+  command({
+    type: 'drag',
+    description: 'Drag an element onto another',
+    schema: { selector: z.string(), targetSelector: z.string() },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).dragTo(locate(cmd.targetSelector), { timeout });
+      return { dragged: `${cmd.selector} to ${cmd.targetSelector}` };
+    }
+  }),
+  command({
+    type: 'upload_file',
+    description: 'Set the files of a file input (paths relative to the base directory)',
+    schema: { selector: z.string(), files: z.union([z.string(), z.array(z.string())]) },
+    async run(cmd, { locate, baseDir, timeout }) {
+      const files = (Array.isArray(cmd.files) ? cmd.files : [cmd.files]).map(file => path.resolve(baseDir, file));
+      await locate(cmd.selector).setInputFiles(files, { timeout });
+      return { uploaded: `${files.length} file(s)` };
+    }
+  }),
+  command({
+    type: 'clear',
+    description: 'Clear an input',
+    schema: { selector: z.string() },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).clear({ timeout });
+      return { cleared: cmd.selector };
+    }
+  }),
+
+  // Waiting
+  command({
+    type: 'wait_for_text',
+    description: 'Wait until text is visible',
+    schema: { text: z.string(), timeout },
+    async run(cmd, { scope, timeout }) {
+      await scope.getByText(cmd.text).first().waitFor({ timeout: cmd.timeout ?? timeout });
+      return { found: cmd.text };
+    }
+  }),
+  command({
+    type: 'wait_for_selector',
+    description: 'Wait until an element reaches a state (default: visible)',
+    schema: { selector: z.string(), state: z.enum(['attached', 'detached', 'visible', 'hidden']).optional(), timeout },
+    async run(cmd, { locate, timeout }) {
+      await locate(cmd.selector).first().waitFor({ state: cmd.state, timeout: cmd.timeout ?? timeout });
+      return { found: cmd.selector };
+    }
+  }),
+  command({
+    type: 'wait_for_timeout',
+    description: 'Pause for a fixed time',
+    schema: {
+      duration: z.number().int().nonnegative().optional().describe('Milliseconds to wait (default: 1000)'),
+      // Older browser-session calls passed the pause as `timeout`
+      timeout: z.number().int().nonnegative().optional().describe('Deprecated alias of duration')
+    },
+    async run(cmd, { page }) {
+      const duration = cmd.duration ?? cmd.timeout ?? 1000;
+      await page.waitForTimeout(duration);
+      return { waited: `${duration}ms` };
+    }
+  }),
+  command({
+    type: 'wait_for_download',
+    description: 'Wait for the next download of this run to be saved',
+    schema: { timeout },
+    async run(cmd, { session, state, baseDir, logger }) {
+      const download = await waitForDownload(session, state.nextDownload, cmd.timeout);
+      state.nextDownload++;
+      if (download.error) {
+        throw new Error(`Download ${download.name} failed: ${download.error}`);
+      }
+      await logger(`  📥 Downloaded ${download.name} (${download.size} bytes)`);
+      return { download: describeDownload(download, baseDir) };
+    }
+  }),
+
+  // Extraction
+  command({
+    type: 'get_text',
+    description: 'Read an element\'s text',
+    schema: { selector: z.string() },
+    capture: result => result.text,
+    async run(cmd, { locate, logger, timeout }) {
+      const text = await locate(cmd.selector).textContent({ timeout });
+      await logger(`  📝 Text: ${text}`);
+      return { text };
+    }
+  }),
+  command({
+    type: 'get_attribute',
+    description: 'Read an element\'s attribute',
+    schema: { selector: z.string(), attribute: z.string() },
+    capture: (result, cmd) => result[cmd.attribute],
+    async run(cmd, { locate, logger, timeout }) {
+      const value = await locate(cmd.selector).getAttribute(cmd.attribute, { timeout });
+      await logger(`  🏷️  ${cmd.attribute}: ${value}`);
+      return { [cmd.attribute]: value };
+    }
+  }),
+
+  // Utilities
+  command({
+    type: 'screenshot',
+    description: 'Save a screenshot of the viewport or full page',
+    schema: {
+      path: z.string().optional().describe('File to save to, relative to the base directory (default: .playwright-mcp/screenshot-<time>.png)'),
+      fullPage: z.boolean().optional()
+    },
+    async run(cmd, { page, baseDir, logger, timeout }) {
+      const screenshotPath = cmd.path ?? path.join('.playwright-mcp', `screenshot-${Date.now()}.png`);
+      await page.screenshot({ path: path.resolve(baseDir, screenshotPath), fullPage: cmd.fullPage, timeout });
+      await logger(`  📸 Saved to: ${screenshotPath}`);
+      return { screenshot: screenshotPath };
+    }
+  }),
+  command({
+    type: 'evaluate',
+    description: 'Run JavaScript in the page (or the command\'s frame) and return its result',
+    schema: { script: z.string() },
+    capture: result => result,
+    async run(cmd, { scope, logger, timeout }) {
+      const target = await resolveEvaluationTarget(scope, timeout);
+      const result = await target.evaluate(cmd.script);
+      await logger(`  📊 Result: ${JSON.stringify(result)}`);
+      return result;
+    }
+  }),
+  command({
+    type: 'scroll',
+    description: 'Scroll the page (or the command\'s frame) to a position',
+    schema: { x: z.number().optional(), y: z.number().optional() },
+    async run(cmd, { scope, timeout }) {
+      const x = cmd.x ?? 0;
+      const y = cmd.y ?? 0;
+      const target = await resolveEvaluationTarget(scope, timeout);
+      await target.evaluate(({ x, y }) => window.scrollTo(x, y), { x, y });
+      return { scrolled: { x, y } };
+    }
+  }),
+
+  // Dialogs
+  command({
+    type: 'set_dialog_policy',
+    description: 'Choose how JavaScript dialogs are answered',
+    schema: { action: z.enum(['accept', 'dismiss']), promptText: text.optional() },
+    async run(cmd, { session }) {
+      session.dialogPolicy = parseDialogPolicy(cmd.action, cmd.promptText);
+      return { dialogPolicy: session.dialogPolicy };
+    }
+  })
+];
@@ -0,0 +1,466 @@
+import path from 'path';
+import type { Page } from 'playwright';
+import { z } from 'zod';
+
+import type {
+  ActionSession,
+  AssertionFailure,
+  CommandBase,
+  CommandContext,
+  CommandDefinition,
+  CommandRunState,
+  DialogRecord,
+  OnErrorPolicy
+} from './actions/types.js';
+import { ASSERTION_COMMANDS, findAssertionError } from './assertions.js';
+import { BUILTIN_COMMANDS, describeDownload } from './builtin-commands.js';
+import { FLOW_COMMANDS } from './control-flow.js';
+import { dialogCount, dialogsSince } from './dialogs.js';
+import { downloadCount, settleDownloads } from './downloads.js';
+import { getLocator, resolveScope } from './locators.js';
+import { extractValue, substituteVariables, toRegExp, variableName } from './variables.js';
+
+export type ParsedCommand = CommandBase & Record<string, unknown>;
+
+/** Outcome of one command, reported the same way by browser-session and execute-shortcut */
+export interface CommandStepResult {
+  /** 3 for a top-level command, "3.2.1" for one inside a block. */
+  step: number | string;
+  type: string;
+  success: boolean;
+  frame?: string | string[];
+  /** How often the command ran: 1, plus one per retry. */
+  attempts: number;
+  /** Failure policy that applied to the step. */
+  onError: OnErrorPolicy;
+  result?: unknown;
+  error?: string;
+  /** Screenshot taken when the step failed under onError: screenshot-and-stop. */
+  screenshot?: string;
+  downloads?: Array<ReturnType<typeof describeDownload>>;
+  dialogs?: DialogRecord[];
+  /** Variables the command stored with saveAs. */
+  saved?: Record<string, unknown>;
+  /** Results of the commands a block command (if, for_each, retry, ...) ran. */
+  steps?: CommandStepResult[];
+}
+
+/** One browser-session call or shortcut run: where its commands run and what they share */
+export interface CommandRun {
+  page: Page;
+  session: ActionSession;
+  baseDir: string;
+  logger: (message: string) => void | Promise<void>;
+  interpolateSecrets: (text: string) => string;
+  /** Timeout, retry and failure policy for commands that do not set their own. */
+  defaults: CommandDefaults;
+  state: CommandRunState;
+}
+
+/** Run-wide defaults for the per-command timeout, retries, retryDelay and onError fields */
+export interface CommandDefaults {
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  onError: OnErrorPolicy;
+}
+
+const PLAYWRIGHT_DEFAULT_TIMEOUT = 30000;
+const DEFAULT_RETRY_DELAY = 1000;
+
+const POLICY_SHAPE = {
+  timeout: z.number().int().nonnegative().optional().describe(`Milliseconds Playwright calls of the command may take (default: ${PLAYWRIGHT_DEFAULT_TIMEOUT})`),
+  retries: z.number().int().nonnegative().optional().describe('How often to run the command again after it fails (default: 0)'),
+  retryDelay: z.number().int().nonnegative().optional().describe(`Milliseconds between attempts (default: ${DEFAULT_RETRY_DELAY})`),
+  onError: z.enum(['stop', 'continue', 'screenshot-and-stop']).optional()
+    .describe('stop ends the run, continue goes on with the next command, screenshot-and-stop saves a screenshot first')
+};
+
+/** Input field for an action's run-wide defaults; `onError` falls back to the action's own default */
+export const commandDefaultsSchema = z.object(POLICY_SHAPE).strict()
+  .describe('Defaults for commands that do not set timeout, retries, retryDelay or onError themselves');
+
+/**
+ * Run-wide defaults from an action's input, with the action's own failure policy when none is given
+ */
+export function resolveDefaults(input: z.infer<typeof commandDefaultsSchema> | undefined, onError: OnErrorPolicy): CommandDefaults {
+  return { ...input, onError: input?.onError ?? onError };
+}
+
+const BASE_COMMAND_SHAPE = {
+  type: z.string(),
+  description: z.string().optional(),
+  frame: z.union([z.string(), z.array(z.string()).nonempty()]).optional(),
+  ...POLICY_SHAPE
+};
+// Fields of commands that can store their value as a variable (see CommandDefinition.capture)
+const CAPTURE_SHAPE = {
+  saveAs: variableName.optional().describe('Store the value as a variable, used by later commands as {{name}}'),
+  pattern: z.string().optional().describe('Regular expression; stores its first capture group (or the whole match) instead')
+};
+
+/**
+ * Thrown by ctx.runBlock() when a nested command fails; `error` is what that command threw
+ */
+export class StepFailure extends Error {
+  constructor(
+    message: string,
+    /** Label of the failed step, e.g. "3.2.1". */
+    readonly step: string,
+    /** 1-based position of the failed command in its block. */
+    readonly index: number,
+    readonly error: unknown
+  ) {
+    super(message);
+    this.name = 'StepFailure';
+  }
+}
+
+const registry = new Map<string, CommandDefinition>();
+// What each failed step threw, so callers can tell failures apart beyond the message
+const failureErrors = new WeakMap<CommandStepResult, unknown>();
+
+/**
+ * Make a command type available to browser-session and shortcuts
+ */
+export function registerCommand(definition: CommandDefinition<any>) {
+  if (!/^[a-z][a-z0-9_]*$/.test(definition.type)) {
+    throw new Error(`Invalid command type "${definition.type}". Use snake_case, e.g. open_menu`);
+  }
+  if (registry.has(definition.type)) {
+    throw new Error(`Command type "${definition.type}" is already registered`);
+  }
+  registry.set(definition.type, definition);
+}
+
+export function getCommand(type: string) {
+  return registry.get(type);
+}
+
+export function listCommandTypes() {
+  return [...registry.keys()];
+}
+
+/** A problem with a command; `path` leads from the command to the field concerned */
+export interface CommandIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * Validate one command against its type's schema
+ */
+export function parseCommand(raw: unknown): ParsedCommand {
+  const { command, issues } = checkCommand(raw, false);
+  if (!command) {
+    throw new Error(issues.map(issue => issue.message).join('; '));
+  }
+  return command;
+}
+
+/**
+ * Every problem with a command, for static validation; `strict` also reports fields its type does not know,
+ * which a run silently ignores
+ */
+export function findCommandIssues(raw: unknown, options: { strict?: boolean } = {}): CommandIssue[] {
+  return checkCommand(raw, options.strict ?? false).issues;
+}
+
+/** Fields a command of this type may have */
+export function commandShape(definition: CommandDefinition<any>): z.ZodRawShape {
+  return { ...BASE_COMMAND_SHAPE, ...(definition.capture ? CAPTURE_SHAPE : {}), ...definition.schema };
+}
+
+function checkCommand(raw: unknown, strict: boolean): { command?: ParsedCommand; issues: CommandIssue[] } {
+  const type = (raw as { type?: unknown } | null)?.type;
+  if (typeof type !== 'string') {
+    return { issues: [{ path: ['type'], message: 'Command needs a "type"' }] };
+  }
+  const definition = registry.get(type);
+  if (!definition) {
+    const suggestion = closestCommandType(type);
+    return {
+      issues: [{
+        path: ['type'],
+        message: `Unknown command type "${type}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}. Available: ${listCommandTypes().join(', ')}`
+      }]
+    };
+  }
+
+  const shape = commandShape(definition);
+  const issues: CommandIssue[] = [];
+  if (strict) {
+    for (const field of Object.keys(raw as object).filter(key => !(key in shape))) {
+      issues.push({ path: [field], message: `${field}: not a field of ${type} (ignored when run)` });
+    }
+  }
+  const parsed = z.object(shape).safeParse(raw);
+  if (!parsed.success) {
+    issues.push(...parsed.error.issues.map(issue => ({ path: issue.path, message: `${issue.path.join('.') || type}: ${issue.message}` })));
+    return { issues };
+  }
+
+  const command = parsed.data as ParsedCommand;
+  const problem = definition.validate?.(command) ?? checkCapture(command);
+  if (problem) {
+    issues.push({ path: [], message: `${type}: ${problem}` });
+  }
+
+  // Nested blocks are validated along with the command that holds them
+  for (const field of definition.blocks ?? []) {
+    const block = command[field];
+    if (block === undefined) continue;
+    command[field] = (block as unknown[]).map((nested, index) => {
+      const result = checkCommand(nested, strict);
+      issues.push(...result.issues.map(issue => ({
+        path: [field, index, ...issue.path],
+        message: `${field}.${index + 1}: ${issue.message}`
+      })));
+      return result.command;
+    });
+  }
+  return issues.length ? { issues } : { command, issues };
+}
+
+// Registered type within two edits of a mistyped one, e.g. click for clik
+function closestCommandType(type: string) {
+  let best: { type: string; distance: number } | undefined;
+  for (const candidate of registry.keys()) {
+    const distance = editDistance(type, candidate);
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { type: candidate, distance };
+    }
+  }
+  return best?.type;
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Validate a list of commands up front, so nothing runs when one of them is malformed
+ */
+export function parseCommands(raw: unknown[]): ParsedCommand[] {
+  const errors: string[] = [];
+  const commands = raw.map((command, index) => {
+    try {
+      return parseCommand(command);
+    } catch (error) {
+      errors.push(`- command ${index + 1}: ${(error as Error).message}`);
+      return undefined;
+    }
+  });
+  if (errors.length) {
+    throw new Error(`Invalid commands:\n${errors.join('\n')}`);
+  }
+  return commands as ParsedCommand[];
+}
+
+function checkCapture(command: ParsedCommand) {
+  if (typeof command.pattern !== 'string') {
+    return undefined;
+  }
+  if (command.saveAs === undefined) {
+    return 'pattern needs saveAs';
+  }
+  try {
+    toRegExp(command.pattern);
+  } catch (error) {
+    return `invalid pattern: ${(error as Error).message}`;
+  }
+  return undefined;
+}
+
+export function createCommandRun(options: Omit<CommandRun, 'state'>): CommandRun {
+  // Downloads started by earlier calls count too, as long as nothing waited for them yet
+  return { ...options, state: { nextDownload: downloadCount(options.session), vars: {}, shortcuts: [], assertionFailures: [] } };
+}
+
+/**
+ * Run one validated command, reporting failures in the result instead of throwing. Commands in a block
+ * get the block command's `timeout` when they have none of their own.
+ */
+export async function runCommand(run: CommandRun, template: ParsedCommand, step: number | string, blockTimeout?: number): Promise<CommandStepResult> {
+  const { page, session, baseDir, logger, interpolateSecrets, state } = run;
+  const definition = registry.get(template.type)!;
+  const downloadsBefore = downloadCount(session);
+  const dialogsBefore = dialogCount(session);
+  const frame = template.frame ? { frame: template.frame } : {};
+  // A run that continues after failures still stops blocks at a failed nested command (so retry and if behave),
+  // unless the nested command says otherwise
+  const inBlock = typeof step === 'string';
+  const onError = template.onError ?? (inBlock && run.defaults.onError === 'continue' ? 'stop' : run.defaults.onError);
+  let attempts = 0;
+  // Results of nested blocks, reported whether or not the command succeeds
+  const steps: CommandStepResult[] = [];
+  const nested = () => (steps.length ? { steps } : {});
+
+  try {
+    // {{name}} placeholders take the variables' current values, e.g. the for_each item of this iteration
+    const substituted = substituteVariables(template, state.vars, definition.blocks);
+    const command = substituted === template ? template : parseCommand(substituted);
+    // Element commands run inside the given iframe (chain) instead of the top-level page
+    const scope = resolveScope(page, command.frame);
+    const retries = command.retries ?? run.defaults.retries ?? 0;
+    const retryDelay = command.retryDelay ?? run.defaults.retryDelay ?? DEFAULT_RETRY_DELAY;
+    // Commands with a timeout field of their own (waits, assertions) read it from the command instead
+    const timeout = ('timeout' in definition.schema ? undefined : command.timeout as number | undefined)
+      ?? blockTimeout ?? run.defaults.timeout;
+
+    const ctx: CommandContext = {
+      page,
+      scope,
+      session,
+      baseDir,
+      logger,
+      interpolateSecrets,
+      locate: selector => getLocator(scope, selector),
+      state,
+      step,
+      timeout,
+      runBlock: async (commands, label) => {
+        for (const [index, nestedCommand] of (commands as ParsedCommand[]).entries()) {
+          const nestedStep = `${step}.${label === undefined ? '' : `${label}.`}${index + 1}`;
+          await logger(`  [${nestedStep}] ${describeCommand(nestedCommand)}`);
+          const outcome = await runCommand(run, nestedCommand, nestedStep, timeout);
+          steps.push(outcome);
+          if (!outcome.success && outcome.onError !== 'continue') {
+            // Failures from deeper blocks already name their step
+            const message = outcome.error?.startsWith(`Step ${nestedStep}.`)
+              ? outcome.error
+              : `Step ${nestedStep} (${nestedCommand.type}) failed: ${outcome.error}`;
+            throw new StepFailure(message, nestedStep, index + 1, failureErrors.get(outcome));
+          }
+        }
+      }
+    };
+
+    let result: unknown;
+    for (;;) {
+      attempts++;
+      try {
+        result = await definition.run(command, ctx);
+        break;
+      } catch (error) {
+        if (attempts > retries) throw error;
+        await logger(`  🔁 Attempt ${attempts}/${retries + 1} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${retryDelay}ms`);
+        await page.waitForTimeout(retryDelay);
+      }
+    }
+
+    // Later commands see the stored value as {{saveAs}}
+    let saved: Record<string, unknown> | undefined;
+    if (definition.capture && typeof command.saveAs === 'string') {
+      const value = extractValue(definition.capture(result, command), command.pattern as string | undefined);
+      state.vars[command.saveAs] = value;
+      saved = { [command.saveAs]: value };
+      await logger(`  💾 ${command.saveAs} = ${JSON.stringify(value)}`);
+    }
+
+    // Downloads the command triggered, saved by the time it is reported; block commands
+    // leave them (and dialogs) to the nested steps that caused them
+    const downloads = template.type === 'wait_for_download' || definition.blocks
+      ? []
+      : await settleDownloads(session, downloadsBefore);
+    for (const download of downloads) {
+      await logger(`  📥 ${download.error ? `Download failed: ${download.name} (${download.error})` : `Saved download ${download.name}`}`);
+    }
+    const dialogs = definition.blocks ? [] : dialogsSince(session, dialogsBefore);
+    for (const dialog of dialogs) {
+      await logger(`  💬 ${dialog.type} "${dialog.message}" ${dialog.handled}`);
+    }
+
+    return {
+      step,
+      type: template.type,
+      success: true,
+      ...frame,
+      attempts,
+      onError,
+      result,
+      ...(saved ? { saved } : {}),
+      ...(downloads.length ? { downloads: downloads.map(download => describeDownload(download, baseDir)) } : {}),
+      ...(dialogs.length ? { dialogs } : {}),
+      ...nested()
+    };
+  } catch (error) {
+    const dialogs = definition.blocks ? [] : dialogsSince(session, dialogsBefore);
+    // A nested step that failed the block may have taken the screenshot already
+    const failedStep = steps[steps.length - 1];
+    const screenshot = failedStep?.success === false && failedStep.screenshot
+      ? failedStep.screenshot
+      : onError === 'screenshot-and-stop' ? await failureScreenshot(run, step) : undefined;
+    const failure: CommandStepResult = {
+      step,
+      type: template.type,
+      success: false,
+      ...frame,
+      attempts,
+      onError,
+      error: error instanceof Error ? error.message : String(error),
+      ...(screenshot ? { screenshot } : {}),
+      ...(dialogs.length ? { dialogs } : {}),
+      ...nested()
+    };
+    failureErrors.set(failure, error);
+    return failure;
+  }
+}
+
+// Screenshot for onError: screenshot-and-stop; a page that cannot be captured does not hide the original error
+async function failureScreenshot(run: CommandRun, step: number | string) {
+  const screenshotPath = path.join('.playwright-mcp', `failure-step-${step}-${Date.now()}.png`);
+  try {
+    await run.page.screenshot({ path: path.resolve(run.baseDir, screenshotPath), fullPage: true });
+    await run.logger(`  📸 Failure screenshot: ${screenshotPath}`);
+    return screenshotPath;
+  } catch (error) {
+    await run.logger(`  ⚠️  Could not take a failure screenshot: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+/** The error a failed step threw */
+export function failureCause(result: CommandStepResult) {
+  return failureErrors.get(result);
+}
+
+/**
+ * Every assertion of a run that failed: soft ones it recorded and hard ones that failed a step, in step order
+ */
+export function failedAssertions(run: CommandRun, results: CommandStepResult[]): AssertionFailure[] {
+  const hard = results.flatMap(result => {
+    const error = result.success ? undefined : findAssertionError(failureErrors.get(result));
+    return error ? [error.failure] : [];
+  });
+  return [...run.state.assertionFailures, ...hard].sort((a, b) => compareSteps(a.step, b.step));
+}
+
+// "3.10" comes after "3.9"
+function compareSteps(a: number | string, b: number | string) {
+  const left = String(a).split('.').map(Number);
+  const right = String(b).split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? -1) - (right[i] ?? -1);
+    if (difference) return difference;
+  }
+  return 0;
+}
+
+/** Log line for a command: its description, or its type and target */
+export function describeCommand(command: ParsedCommand) {
+  return command.description || `${command.type} ${command.selector || command.url || ''}`.trim();
+}
+
+for (const definition of [...BUILTIN_COMMANDS, ...ASSERTION_COMMANDS, ...FLOW_COMMANDS]) {
+  registerCommand(definition);
+}
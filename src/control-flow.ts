@@ -0,0 +1,226 @@
+import type { FrameLocator, Page } from 'playwright';
+import { z } from 'zod';
+
+import type { CommandDefinition, CommandRunState } from './actions/types.js';
+import { toUrlPredicate } from './debug-log.js';
+import { getLocator, resolveScope } from './locators.js';
+import { variableName } from './variables.js';
+
+/** A check on the page used by if, repeat (until) and while; all given checks must hold */
+export interface Condition {
+  /** An element matching this selector is visible. */
+  visible?: string;
+  /** No element matching this selector is visible. */
+  hidden?: string;
+  /** This text is visible on the page. */
+  text?: string;
+  /** The page URL matches this glob ("**\/checkout*"), /regex/ or substring. */
+  url?: string;
+  not?: Condition;
+  all?: Condition[];
+  any?: Condition[];
+  /** Iframe (chain) the selectors and text are looked up in. */
+  frame?: string | string[];
+  /** Keep checking for up to this many milliseconds until the condition holds (default: check once). */
+  timeout?: number;
+}
+
+const CONDITION_CHECKS = ['visible', 'hidden', 'text', 'url', 'not', 'all', 'any'] as const;
+
+export const conditionSchema: z.ZodType<Condition> = z.lazy(() => z.object({
+  visible: z.string().optional(),
+  hidden: z.string().optional(),
+  text: z.string().optional(),
+  url: z.string().optional(),
+  not: conditionSchema.optional(),
+  all: z.array(conditionSchema).optional(),
+  any: z.array(conditionSchema).optional(),
+  frame: z.union([z.string(), z.array(z.string())]).optional(),
+  timeout: z.number().int().nonnegative().optional()
+}).strict().refine(condition => CONDITION_CHECKS.some(check => condition[check] !== undefined), {
+  message: `Condition needs one of ${CONDITION_CHECKS.join(', ')}`
+}));
+
+const block = z.array(z.unknown()).describe('Commands to run');
+/** Upper bound for while loops that do not set max, so a condition that never changes cannot hang a run */
+const DEFAULT_MAX_ITERATIONS = 100;
+
+// Keeps each command's input type instead of widening it to CommandDefinition<ZodRawShape>
+function command<TShape extends z.ZodRawShape>(definition: CommandDefinition<TShape>): CommandDefinition<TShape> {
+  return definition;
+}
+
+/**
+ * Evaluate a condition against the page, polling until it holds when it has a timeout
+ */
+export async function checkCondition(condition: Condition, page: Page, scope: Page | FrameLocator = page): Promise<boolean> {
+  const deadline = Date.now() + (condition.timeout ?? 0);
+  for (;;) {
+    if (await isMet(condition, page, scope)) {
+      return true;
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return false;
+    }
+    await page.waitForTimeout(Math.min(250, remaining));
+  }
+}
+
+async function isMet(condition: Condition, page: Page, scope: Page | FrameLocator): Promise<boolean> {
+  const within = condition.frame ? resolveScope(page, condition.frame) : scope;
+  if (condition.visible !== undefined && !(await getLocator(within, condition.visible).first().isVisible())) return false;
+  if (condition.hidden !== undefined && await getLocator(within, condition.hidden).first().isVisible()) return false;
+  if (condition.text !== undefined && !(await within.getByText(condition.text).first().isVisible())) return false;
+  if (condition.url !== undefined && !toUrlPredicate(condition.url)(page.url())) return false;
+  if (condition.not && await isMet(condition.not, page, within)) return false;
+  for (const part of condition.all ?? []) {
+    if (!(await isMet(part, page, within))) return false;
+  }
+  if (condition.any) {
+    let anyMet = false;
+    for (const part of condition.any) {
+      if (await isMet(part, page, within)) {
+        anyMet = true;
+        break;
+      }
+    }
+    if (!anyMet) return false;
+  }
+  return true;
+}
+
+/**
+ * Run `body` with loop variables set, restoring what they shadowed afterwards
+ */
+async function withVars(state: CommandRunState, vars: Record<string, unknown>, body: () => Promise<void>) {
+  const previous = Object.keys(vars).map(name => [name, Object.prototype.hasOwnProperty.call(state.vars, name), state.vars[name]] as const);
+  Object.assign(state.vars, vars);
+  try {
+    await body();
+  } finally {
+    for (const [name, existed, value] of previous) {
+      if (existed) {
+        state.vars[name] = value;
+      } else {
+        delete state.vars[name];
+      }
+    }
+  }
+}
+
+/**
+ * Commands that run nested blocks: conditionals, loops and retries
+ */
+export const FLOW_COMMANDS: CommandDefinition<any>[] = [
+  command({
+    type: 'if',
+    description: 'Run commands only when a condition holds, otherwise the else commands',
+    schema: { condition: conditionSchema, commands: block, else: block.optional() },
+    blocks: ['commands', 'else'],
+    async run(cmd, { page, scope, logger, runBlock }) {
+      const met = await checkCondition(cmd.condition, page, scope);
+      await logger(`  🔀 Condition ${met ? 'met' : 'not met'}`);
+      if (met) {
+        await runBlock(cmd.commands);
+      } else if (cmd.else) {
+        await runBlock(cmd.else);
+      }
+      return { condition: met, branch: met ? 'then' : cmd.else ? 'else' : 'none' };
+    }
+  }),
+  command({
+    type: 'repeat',
+    description: 'Run commands a number of times, optionally stopping once a condition holds',
+    schema: {
+      times: z.number().int().positive(),
+      until: conditionSchema.optional().describe('Checked after each iteration; stops the loop when it holds'),
+      commands: block
+    },
+    blocks: ['commands'],
+    async run(cmd, { page, scope, state, logger, runBlock }) {
+      let iterations = 0;
+      while (iterations < cmd.times) {
+        iterations++;
+        await withVars(state, { index: iterations }, () => runBlock(cmd.commands, iterations));
+        if (cmd.until && await checkCondition(cmd.until, page, scope)) {
+          await logger(`  🔁 Stopped after ${iterations} iteration(s): until condition met`);
+          return { iterations, stoppedEarly: iterations < cmd.times };
+        }
+      }
+      return { iterations };
+    }
+  }),
+  command({
+    type: 'while',
+    description: 'Run commands as long as a condition holds, failing after max iterations',
+    schema: {
+      condition: conditionSchema,
+      max: z.number().int().positive().optional().describe(`Most iterations allowed before the loop fails (default: ${DEFAULT_MAX_ITERATIONS})`),
+      commands: block
+    },
+    blocks: ['commands'],
+    async run(cmd, { page, scope, state, runBlock }) {
+      const max = cmd.max ?? DEFAULT_MAX_ITERATIONS;
+      let iterations = 0;
+      while (await checkCondition(cmd.condition, page, scope)) {
+        if (iterations >= max) {
+          throw new Error(`Condition still holds after ${max} iteration(s); raise max if the loop needs more`);
+        }
+        iterations++;
+        await withVars(state, { index: iterations }, () => runBlock(cmd.commands, iterations));
+      }
+      return { iterations };
+    }
+  }),
+  command({
+    type: 'for_each',
+    description: 'Run commands once per item of a list, with the item as {{item}} (or the name given in as)',
+    schema: {
+      items: z.union([z.array(z.unknown()), z.string()]).describe('A list, e.g. "{{params.products}}"'),
+      as: variableName.optional().describe('Variable name of the current item (default: item)'),
+      commands: block
+    },
+    blocks: ['commands'],
+    async run(cmd, { state, runBlock }) {
+      if (!Array.isArray(cmd.items)) {
+        throw new Error(`for_each items must be a list, got ${JSON.stringify(cmd.items)}`);
+      }
+      const name = cmd.as ?? 'item';
+      for (const [index, item] of cmd.items.entries()) {
+        await withVars(state, { [name]: item, index: index + 1 }, () => runBlock(cmd.commands, index + 1));
+      }
+      return { iterations: cmd.items.length };
+    }
+  }),
+  command({
+    type: 'retry',
+    description: 'Run commands again when one of them fails, waiting longer after each attempt',
+    schema: {
+      attempts: z.number().int().positive().optional().describe('Total attempts (default: 3)'),
+      delay: z.number().int().nonnegative().optional().describe('Milliseconds to wait before the second attempt (default: 1000)'),
+      backoff: z.number().min(1).optional().describe('Factor the delay grows by after each attempt (default: 2)'),
+      commands: block
+    },
+    blocks: ['commands'],
+    async run(cmd, { page, logger, runBlock }) {
+      const attempts = cmd.attempts ?? 3;
+      let delay = cmd.delay ?? 1000;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await runBlock(cmd.commands, attempt);
+          return { attempts: attempt };
+        } catch (error) {
+          if (attempt >= attempts) {
+            // Keep the error itself, so what failed inside the block can still be told apart
+            (error as Error).message = `Failed after ${attempts} attempt(s): ${(error as Error).message}`;
+            throw error;
+          }
+          await logger(`  🔁 Attempt ${attempt}/${attempts} failed, retrying in ${delay}ms`);
+          await page.waitForTimeout(delay);
+          delay *= cmd.backoff ?? 2;
+        }
+      }
+    }
+  })
+];
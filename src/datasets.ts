@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+
+/** One row of a dataset, bound to a shortcut's params for one run */
+export type DatasetRow = Record<string, unknown>;
+
+/** A dataset read from a file or given inline */
+export interface Dataset {
+  /** File the rows came from, relative to the base directory; "inline" for an array given in the input. */
+  source: string;
+  /** CSV cells are strings and are converted to the declared param types when bound. */
+  format: 'csv' | 'json' | 'inline';
+  rows: DatasetRow[];
+}
+
+export function dataDir(baseDir: string) {
+  return path.join(baseDir, '.playwright-mcp', 'data');
+}
+
+/**
+ * Find a dataset file: absolute, in .playwright-mcp/data/, or relative to the base directory
+ */
+export function resolveDatasetPath(baseDir: string, datasetPath: string) {
+  if (path.isAbsolute(datasetPath)) {
+    if (!fs.existsSync(datasetPath)) {
+      throw new Error(`Dataset file not found: ${datasetPath}`);
+    }
+    return datasetPath;
+  }
+  const candidates = [path.join(dataDir(baseDir), datasetPath), path.join(baseDir, datasetPath)];
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(`Dataset file not found: ${datasetPath}\nSearched in: .playwright-mcp/data/ and workspace root`);
+  }
+  return found;
+}
+
+/**
+ * Read a dataset: a .csv file with a header row, a .json file holding an array of objects, or an inline array
+ */
+export function loadDataset(baseDir: string, dataset: string | DatasetRow[]): Dataset {
+  if (Array.isArray(dataset)) {
+    return { source: 'inline', format: 'inline', rows: checkRows(dataset, 'inline dataset') };
+  }
+
+  const file = resolveDatasetPath(baseDir, dataset);
+  const source = path.relative(baseDir, file);
+  const text = fs.readFileSync(file, 'utf-8');
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.csv') {
+    return { source, format: 'csv', rows: parseCsv(text, source) };
+  }
+  if (extension === '.json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Failed to parse dataset ${source}: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(data)) {
+      throw new Error(`Dataset ${source} must hold an array of objects, one per row`);
+    }
+    return { source, format: 'json', rows: checkRows(data, source) };
+  }
+  throw new Error(`Unsupported dataset format "${extension}" (${source}). Use .csv or .json`);
+}
+
+/**
+ * Parse CSV with a header row: comma separated, fields in double quotes may hold commas,
+ * line breaks and "" for a quote. Empty cells are left out, so the param's default applies.
+ */
+export function parseCsv(text: string, source = 'CSV'): DatasetRow[] {
+  const records = readCsvRecords(text.replace(/^\uFEFF/, ''), source);
+  const header = records.shift();
+  if (!header) {
+    throw new Error(`Dataset ${source} is empty; the first line must name the columns`);
+  }
+  const columns = header.fields.map(column => column.trim());
+  const duplicate = columns.find((column, index) => column !== '' && columns.indexOf(column) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`Dataset ${source} has the column "${duplicate}" twice`);
+  }
+
+  return records.map(({ line, fields }) => {
+    if (fields.length !== columns.length) {
+      throw new Error(`Dataset ${source} line ${line}: expected ${columns.length} fields (${columns.join(', ')}), got ${fields.length}`);
+    }
+    return Object.fromEntries(columns
+      .map((column, index) => [column, fields[index]] as const)
+      .filter(([column, value]) => column !== '' && value !== ''));
+  });
+}
+
+// Records with the line each starts on; blank lines are skipped
+function readCsvRecords(text: string, source: string) {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let blank = true;
+
+  const endRecord = () => {
+    if (!blank) {
+      records.push({ line: recordLine, fields: [...fields, field] });
+    }
+    fields = [];
+    field = '';
+    blank = true;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"' && field === '') {
+      quoted = true;
+      blank = false;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+      blank = false;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+      blank = false;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Dataset ${source} line ${recordLine}: quoted field is not closed`);
+  }
+  endRecord();
+  return records;
+}
+
+function checkRows(rows: unknown[], source: string): DatasetRow[] {
+  rows.forEach((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      throw new Error(`Row ${index + 1} of ${source} must be an object mapping param names to values, got ${JSON.stringify(row)}`);
+    }
+  });
+  return rows as DatasetRow[];
+}
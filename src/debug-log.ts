@@ -0,0 +1,158 @@
+import type { Page } from 'playwright';
+
+import type { DebugEvent, DebugLog } from './actions/types.js';
+
+/** Events kept per session before the oldest are dropped */
+export const DEFAULT_DEBUG_LOG_CAPACITY = 1000;
+const MAX_REMEMBERED_STEPS = 50;
+
+export interface DebugEventFilter {
+  types?: DebugEvent['type'][];
+  /** Console errors, page errors, failed requests and responses with status >= 400. */
+  onlyErrors?: boolean;
+  /** Network events whose URL matches this glob, "/regex/" or substring. */
+  urlPattern?: string;
+  /** Only responses with at least this status (network events without a status are skipped). */
+  minStatus?: number;
+  /** ISO timestamp; only events at or after it. */
+  since?: string;
+  /** Only events from this step (tool call) onwards. */
+  sinceStep?: number;
+  /** Return at most this many of the newest matching events. */
+  limit?: number;
+}
+
+export function createDebugLog(capacity = DEFAULT_DEBUG_LOG_CAPACITY): DebugLog {
+  return { events: [], capacity, dropped: 0, nextSeq: 1, step: 0, steps: [] };
+}
+
+/**
+ * Start a new step; events recorded from now on are tagged with it
+ */
+export function markDebugStep(log: DebugLog, tool: string) {
+  log.step++;
+  log.steps.push({ step: log.step, tool, startedAt: new Date().toISOString() });
+  if (log.steps.length > MAX_REMEMBERED_STEPS) {
+    log.steps.shift();
+  }
+  return log.step;
+}
+
+export function recordDebugEvent(log: DebugLog, event: Omit<DebugEvent, 'seq' | 'timestamp' | 'step'>) {
+  log.events.push({ seq: log.nextSeq++, timestamp: new Date().toISOString(), step: log.step, ...event });
+  if (log.events.length > log.capacity) {
+    const overflow = log.events.length - log.capacity;
+    log.events.splice(0, overflow);
+    log.dropped += overflow;
+  }
+}
+
+export function clearDebugLog(log: DebugLog) {
+  const cleared = log.events.length;
+  log.events = [];
+  log.dropped = 0;
+  return cleared;
+}
+
+/**
+ * Record console messages, uncaught page errors and network traffic of a page
+ */
+export function captureDebugEvents(log: DebugLog, page: Page) {
+  page.on('console', message => {
+    const location = message.location();
+    recordDebugEvent(log, {
+      type: 'console',
+      level: message.type(),
+      text: message.text(),
+      url: location.url ? `${location.url}:${location.lineNumber + 1}` : undefined
+    });
+  });
+  page.on('pageerror', error => {
+    recordDebugEvent(log, { type: 'pageerror', text: error.stack ?? error.message });
+  });
+  page.on('request', request => {
+    recordDebugEvent(log, {
+      type: 'request',
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType()
+    });
+  });
+  page.on('response', response => {
+    const request = response.request();
+    recordDebugEvent(log, {
+      type: 'response',
+      method: request.method(),
+      url: response.url(),
+      status: response.status(),
+      resourceType: request.resourceType()
+    });
+  });
+  page.on('requestfailed', request => {
+    recordDebugEvent(log, {
+      type: 'requestfailed',
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      failure: request.failure()?.errorText
+    });
+  });
+}
+
+export function isDebugError(event: DebugEvent) {
+  return (event.type === 'console' && event.level === 'error')
+    || event.type === 'pageerror'
+    || event.type === 'requestfailed'
+    || (event.status ?? 0) >= 400;
+}
+
+export function queryDebugEvents(log: DebugLog, filter: DebugEventFilter = {}): DebugEvent[] {
+  let since: number | undefined;
+  if (filter.since) {
+    since = Date.parse(filter.since);
+    if (Number.isNaN(since)) {
+      throw new Error(`Invalid "since" timestamp "${filter.since}". Use an ISO date like 2024-05-01T12:00:00Z`);
+    }
+  }
+  const matchesUrl = filter.urlPattern ? toUrlPredicate(filter.urlPattern) : undefined;
+
+  const matches = log.events.filter(event => {
+    const isNetwork = event.type === 'request' || event.type === 'response' || event.type === 'requestfailed';
+    if (filter.types && !filter.types.includes(event.type)) return false;
+    if (filter.onlyErrors && !isDebugError(event)) return false;
+    if (since !== undefined && Date.parse(event.timestamp) < since) return false;
+    if (filter.sinceStep !== undefined && event.step < filter.sinceStep) return false;
+    if (isNetwork && matchesUrl && !matchesUrl(event.url ?? '')) return false;
+    if (isNetwork && filter.minStatus !== undefined && (event.status === undefined || event.status < filter.minStatus)) return false;
+    return true;
+  });
+
+  return filter.limit !== undefined ? matches.slice(-filter.limit) : matches;
+}
+
+/**
+ * "/pattern/flags" is a RegExp, a pattern with * is a glob (** crosses "/"), anything else a substring
+ */
+export function toUrlPredicate(pattern: string): (url: string) => boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(regexMatch[1], regexMatch[2]);
+    } catch (error) {
+      throw new Error(`Invalid URL regex ${pattern}: ${(error as Error).message}`);
+    }
+    return url => regex.test(url);
+  }
+
+  if (!pattern.includes('*')) {
+    return url => url.includes(pattern);
+  }
+
+  const source = pattern
+    .split('**')
+    .map(part => part.split('*').map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  const glob = new RegExp(`^${source}$`);
+  return url => glob.test(url);
+}
@@ -0,0 +1,74 @@
+import type { Page } from 'playwright';
+
+import type { ActionSession, DialogPolicy, DialogRecord } from './actions/types.js';
+
+/** Confirm and beforeunload dialogs are accepted unless configured otherwise, so flows do not stall */
+export const DEFAULT_DIALOG_POLICY: DialogPolicy = { action: 'accept' };
+const MAX_REMEMBERED_DIALOGS = 100;
+
+/**
+ * Validate a dialog policy given as CLI flag, action input or shortcut command
+ */
+export function parseDialogPolicy(action: unknown, promptText?: unknown): DialogPolicy {
+  if (action !== 'accept' && action !== 'dismiss') {
+    throw new Error(`Invalid dialog policy "${String(action)}". Use accept or dismiss`);
+  }
+  if (promptText !== undefined && typeof promptText !== 'string') {
+    throw new Error('Dialog promptText must be a string');
+  }
+  return promptText === undefined ? { action } : { action, promptText };
+}
+
+// Dialogs seen per session, including ones dropped from the bounded session.dialogs list
+const dialogCounts = new WeakMap<ActionSession, number>();
+
+/**
+ * Answer every dialog the page opens according to the session's policy and remember it
+ */
+export function captureDialogs(session: ActionSession, page: Page) {
+  page.on('dialog', async dialog => {
+    const policy = session.dialogPolicy;
+    const promptText = policy.action === 'accept' && dialog.type() === 'prompt'
+      ? policy.promptText ?? dialog.defaultValue()
+      : undefined;
+
+    // Record before answering, so the command the dialog blocked sees it when it resumes
+    session.dialogs.push({
+      type: dialog.type(),
+      message: dialog.message(),
+      ...(dialog.type() === 'prompt' ? { defaultValue: dialog.defaultValue() } : {}),
+      handled: policy.action === 'accept' ? 'accepted' : 'dismissed',
+      ...(promptText !== undefined ? { promptText } : {}),
+      url: page.url(),
+      timestamp: new Date().toISOString(),
+      step: session.debugLog.step
+    });
+    if (session.dialogs.length > MAX_REMEMBERED_DIALOGS) {
+      session.dialogs.shift();
+    }
+    dialogCounts.set(session, dialogCount(session) + 1);
+
+    try {
+      if (policy.action === 'accept') {
+        await dialog.accept(promptText);
+      } else {
+        await dialog.dismiss();
+      }
+    } catch {
+      // The page closed while the dialog was open
+    }
+  });
+}
+
+/** Number of dialogs the session has seen so far */
+export function dialogCount(session: ActionSession) {
+  return dialogCounts.get(session) ?? 0;
+}
+
+/**
+ * Dialogs seen since dialogCount() returned `count`
+ */
+export function dialogsSince(session: ActionSession, count: number): DialogRecord[] {
+  const added = dialogCount(session) - count;
+  return added > 0 ? session.dialogs.slice(-added) : [];
+}
@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Download, Page } from 'playwright';
+
+import type { ActionSession, DownloadRecord } from './actions/types.js';
+
+/** Default downloads folder, relative to the base directory */
+export const DEFAULT_DOWNLOADS_DIR = path.join('.playwright-mcp', 'downloads');
+const MAX_REMEMBERED_DOWNLOADS = 100;
+
+// Playwright does not report a download's content type, so it is derived from the file name
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.ics': 'text/calendar'
+};
+
+interface DownloadTracker {
+  /** The most recent downloads started in the session, in order; each settles once the file is saved. */
+  started: Array<Promise<DownloadRecord>>;
+  /** Number of earlier downloads no longer in `started`. */
+  forgotten: number;
+  /** Callbacks of wait_for_download calls waiting for the next download to start. */
+  waiters: Array<() => void>;
+}
+
+const trackers = new WeakMap<ActionSession, DownloadTracker>();
+
+/**
+ * Resolve the configured downloads folder, which must stay inside the base directory
+ */
+export function resolveDownloadsDir(baseDir: string, dir: string = DEFAULT_DOWNLOADS_DIR) {
+  const resolved = path.resolve(baseDir, dir);
+  const relative = path.relative(baseDir, resolved);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Downloads folder "${dir}" must be inside the base directory ${baseDir}`);
+  }
+  return resolved;
+}
+
+/**
+ * Save every download the page starts into the session's downloads folder
+ */
+export function captureDownloads(session: ActionSession, page: Page) {
+  page.on('download', download => {
+    const tracker = getTracker(session);
+    const saved = saveDownload(session, download, downloadCount(session) + 1);
+    // Failures are recorded on the DownloadRecord, never rejected
+    tracker.started.push(saved);
+    if (tracker.started.length > MAX_REMEMBERED_DOWNLOADS) {
+      tracker.started.shift();
+      tracker.forgotten++;
+    }
+    for (const wake of tracker.waiters.splice(0)) {
+      wake();
+    }
+  });
+}
+
+/** Number of downloads started in the session so far */
+export function downloadCount(session: ActionSession) {
+  const tracker = getTracker(session);
+  return tracker.forgotten + tracker.started.length;
+}
+
+/**
+ * Wait until the downloads started since `fromIndex` are saved and return them
+ */
+export async function settleDownloads(session: ActionSession, fromIndex: number): Promise<DownloadRecord[]> {
+  const tracker = getTracker(session);
+  return Promise.all(tracker.started.slice(Math.max(0, fromIndex - tracker.forgotten)));
+}
+
+/**
+ * Return download number `index` (0-based) once it is saved, waiting for it to start if needed
+ */
+export async function waitForDownload(session: ActionSession, index: number, timeout = 30_000): Promise<DownloadRecord> {
+  const tracker = getTracker(session);
+  if (index < tracker.forgotten) {
+    throw new Error(`Download ${index + 1} is no longer remembered; only the last ${MAX_REMEMBERED_DOWNLOADS} are kept`);
+  }
+  if (index >= downloadCount(session)) {
+    await new Promise<void>((resolve, reject) => {
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        tracker.waiters = tracker.waiters.filter(waiter => waiter !== wake);
+        reject(new Error(`No download started within ${timeout}ms`));
+      }, timeout);
+      tracker.waiters.push(wake);
+    });
+  }
+  return tracker.started[index - tracker.forgotten];
+}
+
+async function saveDownload(session: ActionSession, download: Download, number: number): Promise<DownloadRecord> {
+  const startedAt = new Date().toISOString();
+  const name = download.suggestedFilename();
+  const record: DownloadRecord = {
+    id: `download-${number}`,
+    name,
+    path: '',
+    size: 0,
+    mimeType: MIME_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream',
+    url: download.url(),
+    startedAt,
+    savedAt: startedAt,
+    step: session.debugLog.step
+  };
+
+  try {
+    await fs.mkdir(session.downloadsDir, { recursive: true });
+    record.path = await reservePath(path.join(session.downloadsDir, name));
+    await download.saveAs(record.path);
+    record.size = (await fs.stat(record.path)).size;
+  } catch (error) {
+    record.error = (await download.failure().catch(() => null)) ?? (error as Error).message;
+  }
+
+  record.savedAt = new Date().toISOString();
+  session.downloads.push(record);
+  if (session.downloads.length > MAX_REMEMBERED_DOWNLOADS) {
+    session.downloads.shift();
+  }
+  return record;
+}
+
+/**
+ * Create the file empty so no other download takes its name: "report.csv" becomes "report-2.csv"
+ * (then -3, ...) when the name is taken
+ */
+async function reservePath(filePath: string) {
+  const { dir, name, ext } = path.parse(filePath);
+  for (let counter = 1; ; counter++) {
+    const candidate = counter === 1 ? filePath : path.join(dir, `${name}-${counter}${ext}`);
+    try {
+      await (await fs.open(candidate, 'wx')).close();
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+}
+
+function getTracker(session: ActionSession) {
+  let tracker = trackers.get(session);
+  if (!tracker) {
+    tracker = { started: [], forgotten: 0, waiters: [] };
+    trackers.set(session, tracker);
+  }
+  return tracker;
+}
@@ -0,0 +1,106 @@
+import { devices } from 'playwright';
+import type { BrowserContextOptions, Page } from 'playwright';
+
+export interface EmulationSettings {
+  /** Playwright device descriptor name, e.g. "iPhone 13" or "Pixel 7". */
+  device?: string;
+  viewport?: { width: number; height: number };
+  locale?: string;
+  timezoneId?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+}
+
+/** Context options that emulation owns; reset clears exactly these */
+export const EMULATION_OPTION_KEYS = [
+  'viewport',
+  'screen',
+  'userAgent',
+  'deviceScaleFactor',
+  'isMobile',
+  'hasTouch',
+  'locale',
+  'timezoneId',
+  'geolocation',
+  'colorScheme'
+] as const;
+
+/**
+ * Turn a device name and explicit overrides into browser context options.
+ * Explicit overrides win over the device descriptor.
+ */
+export function buildEmulationOptions(settings: EmulationSettings): BrowserContextOptions {
+  const options: BrowserContextOptions = {};
+
+  if (settings.device) {
+    const deviceName = Object.keys(devices).find(name => name.toLowerCase() === settings.device!.toLowerCase());
+    if (!deviceName) {
+      throw new Error(`Unknown device "${settings.device}". Use a Playwright device name such as "iPhone 13", "Pixel 7" or "iPad Pro 11".`);
+    }
+    const { defaultBrowserType, ...descriptor } = devices[deviceName];
+    Object.assign(options, descriptor);
+  }
+
+  if (settings.viewport) options.viewport = settings.viewport;
+  if (settings.locale) options.locale = settings.locale;
+  if (settings.timezoneId) options.timezoneId = settings.timezoneId;
+  if (settings.colorScheme) options.colorScheme = settings.colorScheme;
+  if (settings.geolocation) {
+    options.geolocation = settings.geolocation;
+    // Pages only see the fake position once geolocation is granted
+    options.permissions = ['geolocation'];
+  }
+
+  return options;
+}
+
+/**
+ * Parse "390x844" into a viewport size
+ */
+export function parseViewport(value: string): { width: number; height: number } {
+  const match = value.trim().match(/^(\d+)\s*[x×,]\s*(\d+)$/i);
+  if (!match) {
+    throw new Error(`Invalid viewport "${value}". Use WIDTHxHEIGHT, e.g. 390x844`);
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+/**
+ * Parse "52.52,13.40[,accuracy]" into a geolocation
+ */
+export function parseGeolocation(value: string): { latitude: number; longitude: number; accuracy?: number } {
+  const parts = value.split(',').map(part => Number(part.trim()));
+  if (parts.length < 2 || parts.length > 3 || parts.some(Number.isNaN)) {
+    throw new Error(`Invalid geolocation "${value}". Use LATITUDE,LONGITUDE[,ACCURACY], e.g. 52.52,13.40`);
+  }
+  const [latitude, longitude, accuracy] = parts;
+  return accuracy === undefined ? { latitude, longitude } : { latitude, longitude, accuracy };
+}
+
+export function parseColorScheme(value: string): EmulationSettings['colorScheme'] {
+  if (value !== 'light' && value !== 'dark' && value !== 'no-preference') {
+    throw new Error(`Invalid color scheme "${value}". Use light, dark or no-preference`);
+  }
+  return value;
+}
+
+/**
+ * Read the settings a page actually runs with, as seen from inside the page
+ */
+export async function readEffectiveEmulation(page: Page, contextOptions: BrowserContextOptions) {
+  const fromPage = await page.evaluate(() => ({
+    userAgent: navigator.userAgent,
+    locale: navigator.language,
+    timezoneId: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    devicePixelRatio: window.devicePixelRatio,
+    touch: navigator.maxTouchPoints > 0,
+  }));
+
+  return {
+    viewport: page.viewportSize(),
+    ...fromPage,
+    isMobile: contextOptions.isMobile ?? false,
+    geolocation: contextOptions.geolocation ?? null,
+    colorScheme: contextOptions.colorScheme ?? null
+  };
+}
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import { parseParamSpecs } from './shortcut-params.js';
+import type { ShortcutParamSpec } from './shortcut-params.js';
+import { listShortcutFiles, shortcutsDir } from './shortcuts.js';
+import { listScriptFiles, readScriptDeclarations, scriptsDir } from './scripts.js';
+
+/** Whether shortcuts and scripts are run through execute-shortcut/execute-script or exposed as one tool per file */
+export type ToolMode = 'generic' | 'per-file';
+
+export const TOOL_MODES: ToolMode[] = ['generic', 'per-file'];
+
+/** Names MCP clients accept for tools */
+export const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** A shortcut or script file, as the tool it is exposed as */
+export interface FileTool {
+  kind: 'shortcut' | 'script';
+  /** Absolute path of the file. */
+  file: string;
+  name: string;
+  title: string;
+  description: string;
+  /** Undefined for a script that does not declare params; its tool then takes free-form `args`. */
+  params?: Record<string, ShortcutParamSpec>;
+}
+
+export function parseToolMode(value: string): ToolMode {
+  if (!TOOL_MODES.includes(value as ToolMode)) {
+    throw new Error(`Invalid tool mode "${value}". Use ${TOOL_MODES.join(' or ')}`);
+  }
+  return value as ToolMode;
+}
+
+/**
+ * Find the shortcuts in .playwright-mcp/shortcuts/ and the scripts in .playwright-mcp/scripts/ and read the
+ * name, description and params each declares. Files that cannot be read, or whose tool name is already
+ * taken (by `reserved` names or an earlier file), are left out and reported in `problems`.
+ */
+export function discoverFileTools(baseDir: string, reserved: string[] = []) {
+  const tools: FileTool[] = [];
+  const problems: string[] = [];
+  const taken = new Set(reserved);
+
+  const add = (kind: FileTool['kind'], file: string, read: () => { name?: string; description?: string; params?: Record<string, ShortcutParamSpec> }) => {
+    const relative = path.relative(baseDir, file);
+    try {
+      const declared = read();
+      const name = declared.name ?? toolName(path.relative(kind === 'shortcut' ? shortcutsDir(baseDir) : scriptsDir(baseDir), file));
+      if (!TOOL_NAME_PATTERN.test(name)) {
+        throw new Error(`"${name}" is not a valid tool name (letters, digits, _ and - only, at most 64)`);
+      }
+      if (taken.has(name)) {
+        throw new Error(`tool name "${name}" is already taken; declare another name`);
+      }
+      const params = declared.params;
+      if (params?.session) {
+        throw new Error('a param named "session" would hide the session input; rename it');
+      }
+      taken.add(name);
+      tools.push({
+        kind,
+        file,
+        name,
+        title: `${kind === 'shortcut' ? 'Shortcut' : 'Script'}: ${relative}`,
+        description: declared.description ?? `Run the ${kind} ${relative}`,
+        params
+      });
+    } catch (error) {
+      problems.push(`${relative}: ${(error as Error).message}`);
+    }
+  };
+
+  for (const file of listShortcutFiles(shortcutsDir(baseDir))) {
+    add('shortcut', file, () => {
+      // ${{VAR}}s stay as written: secrets must not end up in tool descriptions
+      const data = YAML.parse(fs.readFileSync(file, 'utf-8'));
+      if (!data || typeof data !== 'object' || !Array.isArray(data.commands)) {
+        throw new Error('Shortcut file must contain a "commands" array');
+      }
+      if (data.name !== undefined && typeof data.name !== 'string') {
+        throw new Error('Shortcut "name" must be a string');
+      }
+      if (data.description !== undefined && typeof data.description !== 'string') {
+        throw new Error('Shortcut "description" must be a string');
+      }
+      return { name: data.name, description: data.description, params: parseParamSpecs(data.params) };
+    });
+  }
+  for (const file of listScriptFiles(scriptsDir(baseDir))) {
+    // Read from the source: scripts are not run until their tool is called
+    add('script', file, () => readScriptDeclarations(file));
+  }
+
+  return { tools, problems };
+}
+
+// "admin/create-user.yaml" -> "admin-create-user"
+function toolName(relativePath: string) {
+  return relativePath
+    .replace(/\.[^./\\]+$/, '')
+    .replace(/[^A-Za-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
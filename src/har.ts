@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import type { BrowserContext } from 'playwright';
+
+import type { ActionSession, HarRecording, HarReplay } from './actions/types.js';
+import { installMockRules, toUrlMatcher } from './network-mocks.js';
+
+export interface HarReplayOptions {
+  notFound?: HarReplay['notFound'];
+  url?: string;
+}
+
+export interface HarRecordingOptions {
+  /** Only record requests matching this URL glob or "/regex/". */
+  urlFilter?: string;
+  /** 'embed' keeps response bodies in the HAR (needed for replay), 'omit' drops them. */
+  content?: 'embed' | 'omit';
+}
+
+/** HAR files live next to the other test artifacts so reports can link to them */
+export function harDir(baseDir: string) {
+  return path.join(baseDir, 'test-results', 'har');
+}
+
+/**
+ * Start recording the session's traffic. Playwright only records HAR for contexts created
+ * with recordHar, so the context is recreated (cookies, localStorage and URL carried over).
+ */
+export async function startHarRecording(
+  session: ActionSession,
+  baseDir: string,
+  name: string | undefined,
+  options: HarRecordingOptions = {}
+): Promise<HarRecording> {
+  if (session.harRecording) {
+    throw new Error(`Session "${session.name}" is already recording to ${session.harRecording.path}. Stop that recording first.`);
+  }
+
+  if (name !== undefined && !/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid HAR name "${name}". Use letters, numbers, dots, dashes and underscores only.`);
+  }
+  const fileName = name?.replace(/\.har$/, '')
+    ?? `${session.name.replace(/[^\w.-]/g, '-')}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  const harPath = path.join(harDir(baseDir), `${fileName}.har`);
+  await fs.promises.mkdir(path.dirname(harPath), { recursive: true });
+
+  const storageState = await session.context.storageState();
+  const authProfile = session.authProfile;
+  await session.recreateContext({
+    storageState,
+    recordHar: {
+      path: harPath,
+      content: options.content ?? 'embed',
+      ...(options.urlFilter ? { urlFilter: toUrlMatcher(options.urlFilter) } : {})
+    }
+  });
+  session.authProfile = authProfile;
+
+  session.harRecording = {
+    path: harPath,
+    startedAt: new Date().toISOString(),
+    urlFilter: options.urlFilter
+  };
+  return session.harRecording;
+}
+
+/**
+ * Stop the running recording. The HAR is written when the recording context closes,
+ * so the session continues in a fresh context with the same cookies, storage and URL.
+ */
+export async function stopHarRecording(session: ActionSession): Promise<HarRecording & { entries: number }> {
+  const recording = session.harRecording;
+  if (!recording) {
+    throw new Error(`Session "${session.name}" is not recording a HAR`);
+  }
+
+  const storageState = await session.context.storageState();
+  const authProfile = session.authProfile;
+  await session.recreateContext({ storageState });
+  session.authProfile = authProfile;
+
+  return { ...recording, entries: await countHarEntries(recording.path) };
+}
+
+/**
+ * Serve the session's requests from a HAR file until the replay is stopped
+ */
+export async function startHarReplay(
+  session: ActionSession,
+  baseDir: string,
+  file: string,
+  options: HarReplayOptions = {}
+): Promise<HarReplay> {
+  const replay: HarReplay = {
+    path: resolveHarFile(baseDir, file),
+    notFound: options.notFound ?? 'abort',
+    url: options.url
+  };
+  if (replay.url) {
+    toUrlMatcher(replay.url);
+  }
+
+  session.harReplay = replay;
+  await reinstallRoutes(session);
+  return replay;
+}
+
+export async function stopHarReplay(session: ActionSession): Promise<HarReplay | undefined> {
+  const replay = session.harReplay;
+  if (!replay) return undefined;
+
+  session.harReplay = undefined;
+  await reinstallRoutes(session);
+  return replay;
+}
+
+/**
+ * Route a (new) context through a HAR replay
+ */
+export async function installHarReplay(context: BrowserContext, replay: HarReplay | undefined) {
+  if (!replay) return;
+  await context.routeFromHAR(replay.path, {
+    notFound: replay.notFound,
+    ...(replay.url ? { url: toUrlMatcher(replay.url) } : {})
+  });
+}
+
+/**
+ * Replace all routes on the session's context: the HAR replay first, then mock rules,
+ * so mocks (which Playwright checks first, being newer) still win over recorded responses
+ */
+async function reinstallRoutes(session: ActionSession) {
+  await session.context.unrouteAll({ behavior: 'ignoreErrors' });
+  await installHarReplay(session.context, session.harReplay);
+  await installMockRules(session.context, session.mockRules);
+}
+
+function resolveHarFile(baseDir: string, file: string) {
+  const candidates = path.isAbsolute(file)
+    ? [file]
+    : [
+        path.join(harDir(baseDir), file),
+        path.join(harDir(baseDir), `${file}.har`),
+        path.join(baseDir, file)
+      ];
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(`HAR file not found: ${file}\nSearched in: test-results/har/ and workspace root`);
+  }
+  return found;
+}
+
+async function countHarEntries(harPath: string) {
+  try {
+    const har = JSON.parse(await fs.promises.readFile(harPath, 'utf-8'));
+    return Array.isArray(har?.log?.entries) ? har.log.entries.length : 0;
+  } catch {
+    return 0;
+  }
+}
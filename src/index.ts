@@ -10,7 +10,27 @@ import { z } from 'zod';
 import * as playwright from 'playwright';
 import { config as loadDotenv } from 'dotenv';
 
-import type { ActionInputSchema, ActionRunResult, PlaywrightActionDefinition } from './actions/types.js';
+import type { ActionInputSchema, ActionRunResult, DialogPolicy, PlaywrightActionDefinition } from './actions/types.js';
+import { registerCommand } from './commands.js';
+import { markDebugStep } from './debug-log.js';
+import { DEFAULT_DIALOG_POLICY, parseDialogPolicy } from './dialogs.js';
+import { resolveDownloadsDir } from './downloads.js';
+import { buildEmulationOptions, parseColorScheme, parseGeolocation, parseViewport } from './emulation.js';
+import type { EmulationSettings } from './emulation.js';
+import {
+  DEFAULT_SESSION,
+  acquireDedicatedSession,
+  acquireSession,
+  closeSession,
+  findSessionConflicts,
+  isSessionLive,
+  listSessions
+} from './sessions.js';
+import type { ManagedSession, SessionLaunchOptions, SessionRequirements } from './sessions.js';
+import { SHORTCUT_SCHEMA_FILE, formatProblem, validateShortcuts, writeShortcutSchema } from './shortcut-validation.js';
+import { discoverFileTools, parseToolMode } from './file-tools.js';
+import type { FileTool, ToolMode } from './file-tools.js';
+import { paramSpecsShape } from './shortcut-params.js';
 
 interface CliOptions {
   actionRoot: string;
@@ -18,6 +38,17 @@ interface CliOptions {
   verbose: boolean;
   headless: boolean;
   browser: string;
+  authProfile?: string;
+  cdpEndpoint?: string;
+  wsEndpoint?: string;
+  /** Absolute folder downloads are saved to. */
+  downloadsDir: string;
+  dialogPolicy: DialogPolicy;
+  emulation: EmulationSettings;
+  /** Run shortcuts and scripts through execute-shortcut/execute-script, or expose one tool per file. */
+  toolMode: ToolMode;
+  /** Arguments that are neither options nor option values, e.g. ["validate", "login.yaml"]. */
+  positionals: string[];
 }
 
 const CLI_OPTIONS = parseCliOptions();
@@ -25,6 +56,7 @@ const ACTION_ROOT = CLI_OPTIONS.actionRoot!;
 const BASE_DIR = CLI_OPTIONS.baseDir!;
 const VERBOSE = CLI_OPTIONS.verbose;
 const HEADLESS = CLI_OPTIONS.headless;
+const CLI_CONTEXT_OPTIONS = resolveCliContextOptions();
 const BUILTIN_ACTIONS_DIR = path.join(__dirname, 'actions');
 const USER_ACTIONS_DIR = path.join(ACTION_ROOT, 'actions');
 
@@ -39,10 +71,13 @@ interface LoadedAction {
 
 let tsRuntimeRegistered = false;
 
-// Persistent browser state
-let persistentBrowser: playwright.Browser | null = null;
-let persistentContext: playwright.BrowserContext | null = null;
-let persistentPage: playwright.Page | null = null;
+// Actions that run a file given its path; in per-file tool mode each file is its own tool instead
+const FILE_EXECUTORS = { shortcut: 'execute-shortcut', script: 'execute-script' } as const;
+
+// Every action accepts an optional session name selecting which browser it runs against
+const SESSION_INPUT_SHAPE: z.ZodRawShape = {
+  session: z.string().optional().describe(`Named browser session to run against (default: "${DEFAULT_SESSION}"). Each session has its own browser, context and page.`)
+};
 
 /**
  * Interpolate environment variables in a string using ${{VAR_NAME}} syntax
@@ -205,6 +240,38 @@ async function seedClaude(cwd: string) {
   console.log(`  🤖 Created ${path.relative(cwd, path.join(agentsDir, 'test-executor.md'))}`);
 }
 
+async function handleValidateCommand() {
+  // Positional argument after "validate"; options and their values like --base <dir> are consumed by parseCliOptions()
+  const target = CLI_OPTIONS.positionals[1];
+
+  // Commands added by actions (call, custom ones) must be registered to be recognized
+  await loadActionsFrom(BUILTIN_ACTIONS_DIR, 'built-in');
+  await loadActionsFrom(USER_ACTIONS_DIR, 'user');
+
+  const { files, problems } = validateShortcuts(BASE_DIR, target);
+  for (const problem of problems) {
+    console.log(formatProblem(problem, BASE_DIR));
+  }
+
+  const failedFiles = new Set(problems.map(problem => problem.file)).size;
+  if (problems.length) {
+    console.log(`\n❌ ${problems.length} problem(s) in ${failedFiles} of ${files.length} shortcut file(s)`);
+    process.exitCode = 1;
+  } else {
+    console.log(`✅ ${files.length} shortcut file(s) valid`);
+  }
+}
+
+async function handleSchemaCommand() {
+  // Commands added by user actions are part of the format too
+  await loadActionsFrom(BUILTIN_ACTIONS_DIR, 'built-in');
+  await loadActionsFrom(USER_ACTIONS_DIR, 'user');
+
+  const output = CLI_OPTIONS.positionals[1];
+  const file = writeShortcutSchema(output ? path.resolve(BASE_DIR, output) : path.join(ACTION_ROOT, SHORTCUT_SCHEMA_FILE));
+  console.log(`📄 Wrote ${path.relative(BASE_DIR, file) || file}`);
+}
+
 async function main() {
   const pkg = await readPackageJson();
   await ensureActionWorkspace();
@@ -220,7 +287,15 @@ async function main() {
   const userActions = await loadActionsFrom(USER_ACTIONS_DIR, 'user', server);
   const actions = [...builtinActions, ...userActions];
 
-  registerActions(server, actions);
+  const executors = Object.values(FILE_EXECUTORS) as string[];
+  registerActions(server, CLI_OPTIONS.toolMode === 'per-file'
+    ? actions.filter(action => !executors.includes(action.definition.name))
+    : actions);
+  registerSessionTools(server);
+  registerValidationTool(server);
+  if (CLI_OPTIONS.toolMode === 'per-file') {
+    await registerFileTools(server, actions);
+  }
   registerPrompts(server);
 
   const transport = new StdioServerTransport();
@@ -243,15 +318,24 @@ async function main() {
   });
 }
 
-// Check if this is a CLI command (seed) or MCP server mode
-const args = process.argv.slice(2);
-const command = args[0];
+// Check if this is a CLI command (seed, validate, schema) or MCP server mode
+const command = CLI_OPTIONS.positionals[0];
 
 if (command === 'seed') {
   handleSeedCommand().catch(error => {
     console.error('[playwrightium] Seed command failed:', error);
     process.exit(1);
   });
+} else if (command === 'validate') {
+  handleValidateCommand().catch(error => {
+    console.error('[playwrightium] Validate command failed:', (error as Error).message);
+    process.exit(1);
+  });
+} else if (command === 'schema') {
+  handleSchemaCommand().catch(error => {
+    console.error('[playwrightium] Schema command failed:', (error as Error).message);
+    process.exit(1);
+  });
 } else {
   // Normal MCP server mode
   main().catch(error => {
@@ -286,6 +370,12 @@ async function loadActionsFrom(dir: string, source: string, server?: McpServer):
       const actionPath = path.join(dir, entry.name);
       try {
         const definition = await importActionDefinition(actionPath);
+        for (const command of definition.commands ?? []) {
+          registerCommand(command);
+          if (server) {
+            await reportVerbose(server, `Registered command type "${command.type}" from ${source} action ${definition.name}`);
+          }
+        }
         actions.push({
           definition,
           filePath: actionPath,
@@ -360,7 +450,7 @@ function registerActions(server: McpServer, actions: LoadedAction[]) {
   }
 
   for (const action of actions) {
-    const inputShape = normalizeInputSchema(action.definition.inputSchema) ?? {};
+    const inputShape = { ...(normalizeInputSchema(action.definition.inputSchema) ?? {}), ...SESSION_INPUT_SHAPE };
 
     server.registerTool(action.definition.name, {
       title: action.definition.title ?? action.definition.name,
@@ -372,6 +462,110 @@ function registerActions(server: McpServer, actions: LoadedAction[]) {
   }
 }
 
+/**
+ * One tool per shortcut and script file, with the file's declared name, description and params,
+ * run by execute-shortcut/execute-script like a call naming the file
+ */
+async function registerFileTools(server: McpServer, actions: LoadedAction[]) {
+  const reserved = [...actions.map(action => action.definition.name), 'list-sessions', 'close-session', 'validate-shortcut'];
+  const { tools, problems } = discoverFileTools(BASE_DIR, reserved);
+  for (const problem of problems) {
+    console.error(`[playwrighium] Skipped tool for ${problem}`);
+  }
+
+  for (const tool of tools) {
+    const executor = actions.find(action => action.definition.name === FILE_EXECUTORS[tool.kind]);
+    if (!executor) {
+      console.error(`[playwrighium] Skipped tool ${tool.name}: the ${FILE_EXECUTORS[tool.kind]} action is not loaded`);
+      continue;
+    }
+    const inputShape: z.ZodRawShape = tool.params
+      ? { ...paramSpecsShape(tool.params), ...SESSION_INPUT_SHAPE }
+      : { args: z.record(z.any()).optional().describe('Arguments passed to the script'), ...SESSION_INPUT_SHAPE };
+
+    server.registerTool(tool.name, {
+      title: tool.title,
+      description: tool.description,
+      inputSchema: inputShape
+    }, async (args: Record<string, unknown> = {}, extra) => {
+      return runAction(executor, fileToolInput(tool, args), server, extra.sessionId);
+    });
+    await reportVerbose(server, `Registered ${tool.kind} tool ${tool.name} for ${path.relative(BASE_DIR, tool.file)}`);
+  }
+}
+
+// The executor's input for a call of a per-file tool
+function fileToolInput(tool: FileTool, args: Record<string, unknown>): Record<string, unknown> {
+  const { session, ...params } = args;
+  if (tool.kind === 'shortcut') {
+    return { session, shortcutPath: tool.file, params };
+  }
+  return { session, scriptPath: tool.file, scriptArgs: tool.params ? params : params.args };
+}
+
+function registerSessionTools(server: McpServer) {
+  // Session management runs outside runAction so it never launches a browser
+  server.registerTool('list-sessions', {
+    title: 'List Browser Sessions',
+    description: 'List the named browser sessions that are currently open, with their browser, current URL and page count',
+    inputSchema: {}
+  }, async () => {
+    const sessions = listSessions();
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ count: sessions.length, sessions }, null, 2)
+      }]
+    };
+  });
+
+  server.registerTool('close-session', {
+    title: 'Close Browser Session',
+    description: 'Close a named browser session and free its browser. Other sessions keep running.',
+    inputSchema: {
+      session: z.string().describe('Name of the session to close')
+    }
+  }, async ({ session }) => {
+    const closed = await closeSession(session);
+    if (!closed) {
+      return toolError(`No browser session named "${session}". Use list-sessions to see open sessions.`);
+    }
+    return {
+      content: [{ type: 'text', text: `Browser session "${session}" closed.` }]
+    };
+  });
+}
+
+function registerValidationTool(server: McpServer) {
+  // Static checks only, so like session management it never launches a browser
+  server.registerTool('validate-shortcut', {
+    title: 'Validate Shortcuts',
+    description: 'Check shortcut files without running them: YAML syntax, unknown command types and fields, missing required fields, undefined ${{VAR}}s, params and call targets. Reports file, line and column for each problem.',
+    inputSchema: {
+      path: z.string().optional().describe('Shortcut file or folder (default: all files in .playwright-mcp/shortcuts/)')
+    }
+  }, async ({ path: target }) => {
+    let result: ReturnType<typeof validateShortcuts>;
+    try {
+      result = validateShortcuts(BASE_DIR, target);
+    } catch (error) {
+      return toolError((error as Error).message);
+    }
+    const { files, problems } = result;
+    const summary = problems.length
+      ? `❌ ${problems.length} problem(s) in ${files.length} shortcut file(s):\n${problems.map(problem => formatProblem(problem, BASE_DIR)).join('\n')}`
+      : `✅ ${files.length} shortcut file(s) valid`;
+    return {
+      content: [{ type: 'text', text: summary }],
+      structuredContent: {
+        valid: problems.length === 0,
+        files: files.map(file => path.relative(BASE_DIR, file)),
+        problems: problems.map(problem => ({ ...problem, file: path.relative(BASE_DIR, problem.file) }))
+      }
+    };
+  });
+}
+
 async function loadPromptTemplate(filename: string): Promise<string> {
   const promptPath = path.join(__dirname, 'prompts', filename);
   return await fs.readFile(promptPath, 'utf-8');
@@ -436,65 +630,63 @@ function normalizeInputSchema(schema?: ActionInputSchema): z.ZodRawShape | undef
 }
 
 async function runAction(action: LoadedAction, args: Record<string, unknown>, server: McpServer, sessionId?: string): Promise<CallToolResult> {
-  let browserName = action.definition.browser ?? CLI_OPTIONS.browser;
-  let channel: string | undefined = undefined;
-  
-  // Map browser names to Playwright browser types and channels
-  const browserLower = browserName.toLowerCase();
-  if (browserLower === 'chrome') {
-    browserName = 'chromium';
-    channel = 'chrome';
-  } else if (browserLower === 'edge') {
-    browserName = 'chromium';
-    channel = 'msedge';
-  } else if (browserLower === 'safari') {
-    browserName = 'webkit';
-  }
-  
-  const launcher = (playwright as Record<string, unknown>)[browserName];
-  if (!launcher) {
-    return toolError(`Unsupported browser: ${browserName}. Supported: chromium, chrome, firefox, webkit, edge`);
-  }
-
-  const browserType = launcher as playwright.BrowserType<playwright.Browser>;
+  const { session: requestedSession, ...actionArgs } = args;
+  const sessionName = typeof requestedSession === 'string' && requestedSession.trim()
+    ? requestedSession.trim()
+    : sessionId ?? DEFAULT_SESSION;
   const logger = createActionLogger(server, action.definition.name, sessionId);
 
-  // Reuse persistent browser or create new one
-  let browser: playwright.Browser;
-  let context: playwright.BrowserContext;
-  let page: playwright.Page;
-
-  if (persistentBrowser && persistentContext && persistentPage) {
-    await logger(`Reusing existing browser session`, 'debug');
-    browser = persistentBrowser;
-    context = persistentContext;
-    page = persistentPage;
-  } else {
-    await logger(`Launching ${channel || browserName}`, 'debug');
+  // Settings the action asks for explicitly; CLI defaults never count as a conflict
+  const requirements: SessionRequirements = {
+    browser: action.definition.browser,
+    headless: action.definition.headless,
+    contextOptions: action.definition.contextOptions
+  };
+  const launchOptions: SessionLaunchOptions = {
+    browser: action.definition.browser ?? CLI_OPTIONS.browser,
     // Use global HEADLESS setting if action doesn't specify, default to headed (false)
-    const headlessMode = action.definition.headless ?? HEADLESS;
-    const launchOptions: playwright.LaunchOptions = { headless: headlessMode };
-    if (channel) {
-      launchOptions.channel = channel as any;
+    headless: action.definition.headless ?? HEADLESS,
+    contextOptions: { ...CLI_CONTEXT_OPTIONS, ...action.definition.contextOptions },
+    baseDir: BASE_DIR,
+    authProfile: CLI_OPTIONS.authProfile,
+    cdpEndpoint: CLI_OPTIONS.cdpEndpoint,
+    wsEndpoint: CLI_OPTIONS.wsEndpoint,
+    downloadsDir: CLI_OPTIONS.downloadsDir,
+    dialogPolicy: CLI_OPTIONS.dialogPolicy
+  };
+
+  // Reuse the named session or launch a new browser for it
+  let session: ManagedSession;
+  let conflicts: string[] = [];
+  try {
+    session = await acquireSession(sessionName, launchOptions, logger);
+
+    // A reused session may not match what this action needs
+    conflicts = findSessionConflicts(session, requirements);
+    if (conflicts.length) {
+      if (action.definition.sessionConflict === 'fail') {
+        return toolError(`Action ${action.definition.name} requires ${conflicts.join(', ')}. Close session "${sessionName}" or call the action with another session name.`);
+      }
+      session = await acquireDedicatedSession(session, requirements, launchOptions, logger);
+      await logger(`Session "${sessionName}" does not match ${conflicts.join(', ')}; running in dedicated session "${session.name}"`, 'info');
     }
-    browser = await browserType.launch(launchOptions);
-    context = await browser.newContext(action.definition.contextOptions);
-    page = await context.newPage();
-    
-    // Store persistent references
-    persistentBrowser = browser;
-    persistentContext = context;
-    persistentPage = page;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return toolError(message);
   }
 
+  // Debug events captured from here on belong to this call
+  markDebugStep(session.debugLog, action.definition.name);
+
   try {
     // Interpolate secrets in input arguments
-    const interpolatedArgs = interpolateSecretsInObject(args);
+    const interpolatedArgs = interpolateSecretsInObject(actionArgs);
     
     const result = await action.definition.run({
-      browser,
-      context,
-      page,
+      browser: session.browser,
+      context: session.context,
+      page: session.page,
+      session,
       input: interpolatedArgs,
       logger,
       env: process.env as Record<string, string | undefined>,
@@ -502,17 +694,14 @@ async function runAction(action: LoadedAction, args: Record<string, unknown>, se
       baseDir: BASE_DIR
     }, { playwright });
 
-    // If close-browser was called, clear persistent references
-    if (action.definition.name === 'close-browser') {
-      persistentBrowser = null;
-      persistentContext = null;
-      persistentPage = null;
-      await logger(`Persistent browser references cleared`, 'debug');
-    }
-
-    return normalizeActionResult(action.definition.name, result);
+    const normalized = normalizeActionResult(action.definition.name, result);
+    reportSessionConfig(normalized, session, conflicts);
+    return normalized;
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
+    let message = error instanceof Error ? error.message : String(error);
+    if (!isSessionLive(session)) {
+      message += `\nThe browser for session "${sessionName}" was closed or crashed; the next call will relaunch it.`;
+    }
     await logger(`Action failed: ${message}`, 'error');
     return {
       content: [
@@ -524,15 +713,6 @@ async function runAction(action: LoadedAction, args: Record<string, unknown>, se
   // Don't close browser - keep it persistent!
 }
 
-async function disposeResource(resource: { close: () => Promise<unknown> } | undefined) {
-  if (!resource) return;
-  try {
-    await resource.close();
-  } catch (error) {
-    console.warn('[playwrighium] Failed to dispose resource', error);
-  }
-}
-
 function normalizeActionResult(actionName: string, result: ActionRunResult): CallToolResult {
   if (!result) {
     return { content: [{ type: 'text', text: `${actionName} completed.` }] };
@@ -568,6 +748,32 @@ function normalizeActionResult(actionName: string, result: ActionRunResult): Cal
   return normalized;
 }
 
+/**
+ * Tell the caller which browser configuration the action actually ran with
+ */
+function reportSessionConfig(result: CallToolResult, session: ManagedSession, conflicts: string[]) {
+  const config = {
+    session: session.name,
+    browser: session.browserName,
+    headless: session.headless,
+    contextOptions: session.contextOptions,
+    // Pass to browser-debug sinceStep to see only what this call caused
+    debugStep: session.debugLog.step,
+    ...(session.dedicatedFor ? { dedicatedFor: session.dedicatedFor } : {})
+  };
+
+  if (result.structuredContent) {
+    result.structuredContent = { ...result.structuredContent, sessionConfig: config };
+  }
+
+  if (conflicts.length) {
+    result.content.push({
+      type: 'text',
+      text: `⚙️ Ran in dedicated session "${session.name}" (${session.browserName}, ${session.headless ? 'headless' : 'headed'}) because the action requires ${conflicts.join(', ')}`
+    });
+  }
+}
+
 function isCallToolResult(value: unknown): value is CallToolResult {
   return Boolean(value && typeof value === 'object' && Array.isArray((value as CallToolResult).content));
 }
@@ -605,6 +811,20 @@ function parseCliOptions(): CliOptions {
   const verboseAliases = ['--verbose', '-v'];
   const headlessAliases = ['--headless', '-h'];
   const browserAliases = ['--browser', '-b'];
+  const authProfileAliases = ['--auth-profile', '--auth'];
+  const cdpEndpointAliases = ['--cdp-endpoint', '--cdp'];
+  const wsEndpointAliases = ['--ws-endpoint', '--ws'];
+  const downloadsDirAliases = ['--downloads-dir', '--downloads'];
+  const dialogPolicyAliases = ['--dialog-policy', '--dialogs'];
+  const dialogPromptTextAliases = ['--dialog-prompt-text'];
+  const deviceAliases = ['--device'];
+  const viewportAliases = ['--viewport', '--viewport-size'];
+  const localeAliases = ['--locale'];
+  const timezoneAliases = ['--timezone', '--timezone-id'];
+  const geolocationAliases = ['--geolocation'];
+  const colorSchemeAliases = ['--color-scheme'];
+  const toolModeAliases = ['--tools', '--tool-mode'];
+  const positionals: string[] = [];
 
   let actionRoot =
     process.env.PLAYWRIGHIUM_ACTIONS_DIR ??
@@ -624,6 +844,41 @@ function parseCliOptions(): CliOptions {
   // Default browser: chromium (Chrome). Options: chromium, firefox, webkit
   let browser = process.env.PLAYWRIGHIUM_BROWSER ?? 'chromium';
 
+  // Auth profile (.playwright-mcp/auth/<name>.json) loaded into every new session
+  let authProfile = process.env.PLAYWRIGHIUM_AUTH_PROFILE || undefined;
+
+  // Attach to a running browser instead of launching one (CDP for Chrome/Edge, websocket for Playwright servers)
+  let cdpEndpoint = process.env.PLAYWRIGHIUM_CDP_ENDPOINT || undefined;
+  let wsEndpoint = process.env.PLAYWRIGHIUM_WS_ENDPOINT || undefined;
+
+  // Folder (inside the base directory) that downloads are saved to
+  let downloadsDir = process.env.PLAYWRIGHIUM_DOWNLOADS_DIR || undefined;
+
+  // How alert/confirm/prompt/beforeunload dialogs are answered in new sessions (accept or dismiss)
+  let dialogPolicy = process.env.PLAYWRIGHIUM_DIALOG_POLICY || undefined;
+  let dialogPromptText = process.env.PLAYWRIGHIUM_DIALOG_PROMPT_TEXT;
+
+  // generic: execute-shortcut/execute-script take a file path; per-file: one tool per shortcut and script
+  let toolMode = process.env.PLAYWRIGHIUM_TOOLS || 'generic';
+
+  // Emulation applied to every new browser context; parsed and validated by resolveCliContextOptions()
+  const emulation: Record<string, string | undefined> = {
+    device: process.env.PLAYWRIGHIUM_DEVICE,
+    viewport: process.env.PLAYWRIGHIUM_VIEWPORT,
+    locale: process.env.PLAYWRIGHIUM_LOCALE,
+    timezoneId: process.env.PLAYWRIGHIUM_TIMEZONE,
+    geolocation: process.env.PLAYWRIGHIUM_GEOLOCATION,
+    colorScheme: process.env.PLAYWRIGHIUM_COLOR_SCHEME
+  };
+  const emulationAliases: Array<[string[], string]> = [
+    [deviceAliases, 'device'],
+    [viewportAliases, 'viewport'],
+    [localeAliases, 'locale'],
+    [timezoneAliases, 'timezoneId'],
+    [geolocationAliases, 'geolocation'],
+    [colorSchemeAliases, 'colorScheme']
+  ];
+
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     const [key, valueFromAssignment] = arg.split('=', 2);
@@ -664,6 +919,83 @@ function parseCliOptions(): CliOptions {
       }
       continue;
     }
+
+    if (authProfileAliases.includes(key)) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value) {
+        authProfile = value;
+      }
+      continue;
+    }
+
+    if (cdpEndpointAliases.includes(key)) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value) {
+        cdpEndpoint = value;
+      }
+      continue;
+    }
+
+    if (wsEndpointAliases.includes(key)) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value) {
+        wsEndpoint = value;
+      }
+      continue;
+    }
+
+    if (downloadsDirAliases.includes(key)) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value) {
+        downloadsDir = value;
+      }
+      continue;
+    }
+
+    if (dialogPolicyAliases.includes(key)) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value) {
+        dialogPolicy = value;
+      }
+      continue;
+    }
+
+    if (dialogPromptTextAliases.includes(key)) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value !== undefined) {
+        dialogPromptText = value;
+      }
+      continue;
+    }
+
+    if (toolModeAliases.includes(key)) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value) {
+        toolMode = value;
+      }
+      continue;
+    }
+
+    const emulationOption = emulationAliases.find(([aliases]) => aliases.includes(key));
+    if (emulationOption) {
+      const value =
+        valueFromAssignment !== undefined ? valueFromAssignment : args[++i];
+      if (value) {
+        emulation[emulationOption[1]] = value;
+      }
+      continue;
+    }
+
+    if (!arg.startsWith('-')) {
+      positionals.push(arg);
+    }
   }
 
   const resolvedBase = path.resolve(baseDir ?? process.cwd());
@@ -674,7 +1006,51 @@ function parseCliOptions(): CliOptions {
         : path.resolve(resolvedBase, actionRoot)
       : path.join(resolvedBase, '.playwright-mcp');
 
-  return { actionRoot: resolvedActions, baseDir: resolvedBase, verbose, headless, browser };
+  let emulationSettings: EmulationSettings;
+  let resolvedDownloads: string;
+  let resolvedDialogPolicy: DialogPolicy;
+  let resolvedToolMode: ToolMode;
+  try {
+    resolvedToolMode = parseToolMode(toolMode);
+    resolvedDownloads = resolveDownloadsDir(resolvedBase, downloadsDir);
+    resolvedDialogPolicy = parseDialogPolicy(dialogPolicy ?? DEFAULT_DIALOG_POLICY.action, dialogPromptText);
+    emulationSettings = {
+      device: emulation.device || undefined,
+      viewport: emulation.viewport ? parseViewport(emulation.viewport) : undefined,
+      locale: emulation.locale || undefined,
+      timezoneId: emulation.timezoneId || undefined,
+      geolocation: emulation.geolocation ? parseGeolocation(emulation.geolocation) : undefined,
+      colorScheme: emulation.colorScheme ? parseColorScheme(emulation.colorScheme) : undefined
+    };
+  } catch (error) {
+    console.error(`[playwrightium] ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  return {
+    actionRoot: resolvedActions,
+    baseDir: resolvedBase,
+    verbose,
+    headless,
+    browser,
+    authProfile,
+    cdpEndpoint,
+    wsEndpoint,
+    downloadsDir: resolvedDownloads,
+    dialogPolicy: resolvedDialogPolicy,
+    emulation: emulationSettings,
+    toolMode: resolvedToolMode,
+    positionals
+  };
+}
+
+function resolveCliContextOptions(): playwright.BrowserContextOptions {
+  try {
+    return buildEmulationOptions(CLI_OPTIONS.emulation);
+  } catch (error) {
+    console.error(`[playwrightium] ${(error as Error).message}`);
+    process.exit(1);
+  }
 }
 
 async function reportVerbose(server: McpServer, message: string) {
@@ -0,0 +1,102 @@
+import type { Frame, FrameLocator, Locator, Page } from 'playwright';
+
+type Scope = Page | FrameLocator;
+
+// Playwright does not export its role union; unknown roles are rejected by getByRole itself
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+// Element names a "tag.class", "tag#id" or "tag:pseudo" selector may start with; other words are text
+const HTML_TAGS = new Set([
+  'a', 'abbr', 'address', 'article', 'aside', 'audio', 'b', 'blockquote', 'body', 'button', 'canvas', 'caption',
+  'code', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'em', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'html', 'i', 'iframe', 'img', 'input', 'label', 'legend', 'li',
+  'main', 'nav', 'ol', 'optgroup', 'option', 'p', 'pre', 'section', 'select', 'small', 'span', 'strong',
+  'summary', 'svg', 'table', 'tbody', 'td', 'textarea', 'tfoot', 'th', 'thead', 'tr', 'ul', 'video'
+]);
+
+/**
+ * Resolve the iframe, or chain of nested iframes (outermost first), a command targets
+ */
+export function resolveScope(page: Page, frame?: string | string[]): Scope {
+  const chain = frame === undefined ? [] : Array.isArray(frame) ? frame : [frame];
+  return chain.reduce<Scope>((scope, selector) => scope.frameLocator(selector), page);
+}
+
+/**
+ * The page, or the frame an iframe scope points to, for running JavaScript where the command's elements are
+ */
+export async function resolveEvaluationTarget(scope: Scope, timeout?: number): Promise<Page | Frame> {
+  if ('mainFrame' in scope) {
+    return scope;
+  }
+  const root = await scope.locator(':root').elementHandle({ timeout });
+  const frame = await root?.ownerFrame();
+  await root?.dispose();
+  if (!frame) {
+    throw new Error('The iframe is no longer attached');
+  }
+  return frame;
+}
+
+/**
+ * Resolve a selector the same way for every command:
+ * - role:button[Submit], testid:login, placeholder:Email, label:Email, title:Close
+ * - css:<selector> for any CSS selector
+ * - CSS and Playwright selectors: .class, #id, [attr], button[type=submit], input:checked,
+ *   form > input, css=/text=/xpath= prefixes, //xpath
+ * - anything else is matched as text, including example.com or Status:Active
+ */
+export function getLocator(scope: Scope, selector: string): Locator {
+  // 1. Role-based (button, link, textbox, etc.)
+  const roleMatch = selector.match(/^role:(\w+)(?:\[(.+)\])?$/);
+  if (roleMatch) {
+    const [, role, name] = roleMatch;
+    return name ? scope.getByRole(role as AriaRole, { name }) : scope.getByRole(role as AriaRole);
+  }
+
+  // 2. Test ID
+  if (selector.startsWith('testid:')) {
+    return scope.getByTestId(selector.replace('testid:', ''));
+  }
+
+  // 3. Placeholder
+  if (selector.startsWith('placeholder:')) {
+    return scope.getByPlaceholder(selector.replace('placeholder:', ''));
+  }
+
+  // 4. Label
+  if (selector.startsWith('label:')) {
+    return scope.getByLabel(selector.replace('label:', ''));
+  }
+
+  // 5. Title attribute
+  if (selector.startsWith('title:')) {
+    return scope.getByTitle(selector.replace('title:', ''));
+  }
+
+  // 6. Explicit CSS
+  if (selector.startsWith('css:')) {
+    return scope.locator(selector.replace('css:', ''));
+  }
+
+  // 7. CSS or Playwright selector
+  if (isSelectorSyntax(selector)) {
+    return scope.locator(selector);
+  }
+
+  // 8. Text content (default for plain text)
+  return scope.getByText(selector);
+}
+
+function isSelectorSyntax(selector: string) {
+  return /^[.#[]/.test(selector)
+    || selector.startsWith('//')
+    || /^(css|text|xpath|id|data-testid|nth|internal:[\w-]+)=/.test(selector)
+    || selector.includes('>') || selector.includes('+')
+    // Descendant combinator before a class, id or attribute: "my-widget .item"
+    || /\s[.#[]/.test(selector)
+    // A tag followed by an attribute: button[type=submit]
+    || /^[a-zA-Z][\w-]*\[/.test(selector)
+    // An HTML element followed by a class, id or pseudo-class: a.nav, input:checked
+    || HTML_TAGS.has(selector.match(/^([a-zA-Z][\w-]*)(\.[\w-]|#[\w-]|:[\w-])/)?.[1]?.toLowerCase() ?? '');
+}
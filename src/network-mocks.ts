@@ -0,0 +1,174 @@
+import fs from 'fs';
+import path from 'path';
+import type { BrowserContext, Route } from 'playwright';
+
+import type { ActionSession, NetworkMockRule } from './actions/types.js';
+
+/** Mock rule as written by users (network-mock input or a shortcut's mocks: block) */
+export interface NetworkMockSpec {
+  id?: string;
+  url: string;
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Path relative to .playwright-mcp/mocks/ (or the base directory, or absolute). */
+  bodyFile?: string;
+  contentType?: string;
+  abort?: boolean | string;
+  delay?: number;
+  times?: number;
+}
+
+type RouteHandler = (route: Route) => Promise<void>;
+
+// Route handlers per context and rule id, needed to unroute a single rule
+const installedHandlers = new WeakMap<BrowserContext, Map<string, RouteHandler>>();
+
+export function mocksDir(baseDir: string) {
+  return path.join(baseDir, '.playwright-mcp', 'mocks');
+}
+
+/**
+ * Validate a spec, resolve its body file and add it to the session (replacing a rule with the same id)
+ */
+export async function addMockRule(session: ActionSession, baseDir: string, spec: NetworkMockSpec): Promise<NetworkMockRule> {
+  if (!spec.url) {
+    throw new Error('A mock rule needs a "url" glob or /regex/');
+  }
+  if (spec.abort && (spec.status !== undefined || spec.body !== undefined || spec.bodyFile)) {
+    throw new Error(`Mock rule for ${spec.url} cannot both abort and fulfill`);
+  }
+  toUrlMatcher(spec.url);
+
+  const rule: NetworkMockRule = {
+    id: spec.id ?? nextRuleId(session),
+    url: spec.url,
+    method: spec.method?.toUpperCase(),
+    status: spec.status,
+    headers: spec.headers,
+    body: spec.body,
+    bodyFile: spec.bodyFile ? resolveBodyFile(baseDir, spec.bodyFile) : undefined,
+    contentType: spec.contentType,
+    abort: spec.abort,
+    delay: spec.delay,
+    times: spec.times,
+    hits: 0
+  };
+
+  if (session.mockRules.some(existing => existing.id === rule.id)) {
+    await removeMockRule(session, rule.id);
+  }
+  session.mockRules.push(rule);
+  await installMockRule(session.context, rule);
+  return rule;
+}
+
+export async function removeMockRule(session: ActionSession, id: string): Promise<boolean> {
+  const index = session.mockRules.findIndex(rule => rule.id === id);
+  if (index === -1) return false;
+
+  const [rule] = session.mockRules.splice(index, 1);
+  const handler = installedHandlers.get(session.context)?.get(id);
+  if (handler) {
+    await session.context.unroute(toUrlMatcher(rule.url), handler);
+    installedHandlers.get(session.context)!.delete(id);
+  }
+  return true;
+}
+
+export async function clearMockRules(session: ActionSession): Promise<number> {
+  const ids = session.mockRules.map(rule => rule.id);
+  for (const id of ids) {
+    await removeMockRule(session, id);
+  }
+  return ids.length;
+}
+
+/**
+ * Install every rule on a (new) context, in the order they were added
+ */
+export async function installMockRules(context: BrowserContext, rules: NetworkMockRule[]) {
+  for (const rule of rules) {
+    await installMockRule(context, rule);
+  }
+}
+
+async function installMockRule(context: BrowserContext, rule: NetworkMockRule) {
+  const handler: RouteHandler = async route => {
+    const request = route.request();
+    if (rule.method && request.method() !== rule.method) {
+      await route.fallback();
+      return;
+    }
+    if (rule.times !== undefined && rule.hits >= rule.times) {
+      await route.fallback();
+      return;
+    }
+
+    rule.hits++;
+    if (rule.delay) {
+      await new Promise(resolve => setTimeout(resolve, rule.delay));
+    }
+
+    if (rule.abort) {
+      await route.abort(typeof rule.abort === 'string' ? rule.abort : undefined);
+      return;
+    }
+
+    if (rule.status === undefined && rule.body === undefined && !rule.bodyFile) {
+      // Delay-only rule: let the request through after waiting
+      await route.fallback();
+      return;
+    }
+
+    const isJson = rule.body !== null && typeof rule.body === 'object';
+    await route.fulfill({
+      status: rule.status ?? 200,
+      headers: rule.headers,
+      contentType: rule.contentType ?? (isJson ? 'application/json' : undefined),
+      ...(rule.bodyFile
+        ? { path: rule.bodyFile }
+        : { body: isJson ? JSON.stringify(rule.body) : rule.body === undefined ? '' : String(rule.body) })
+    });
+  };
+
+  // Playwright gives later routes precedence, so the newest matching rule wins
+  await context.route(toUrlMatcher(rule.url), handler);
+  if (!installedHandlers.has(context)) {
+    installedHandlers.set(context, new Map());
+  }
+  installedHandlers.get(context)!.set(rule.id, handler);
+}
+
+/**
+ * "/pattern/flags" becomes a RegExp, anything else is a Playwright URL glob
+ */
+export function toUrlMatcher(url: string): string | RegExp {
+  const regexMatch = url.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regexMatch) return url;
+  try {
+    return new RegExp(regexMatch[1], regexMatch[2]);
+  } catch (error) {
+    throw new Error(`Invalid mock URL regex ${url}: ${(error as Error).message}`);
+  }
+}
+
+function resolveBodyFile(baseDir: string, bodyFile: string) {
+  const candidates = path.isAbsolute(bodyFile)
+    ? [bodyFile]
+    : [path.join(mocksDir(baseDir), bodyFile), path.join(baseDir, bodyFile)];
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(`Mock body file not found: ${bodyFile}\nSearched in: .playwright-mcp/mocks/ and workspace root`);
+  }
+  return found;
+}
+
+function nextRuleId(session: ActionSession) {
+  let counter = session.mockRules.length + 1;
+  while (session.mockRules.some(rule => rule.id === `mock-${counter}`)) {
+    counter++;
+  }
+  return `mock-${counter}`;
+}
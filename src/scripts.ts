@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import * as playwright from 'playwright';
+import ts from 'typescript';
+import { z } from 'zod';
+
+import type { CommandDefinition } from './actions/types.js';
+import { parseParamSpecs, resolveParams } from './shortcut-params.js';
+import type { ShortcutParamSpec } from './shortcut-params.js';
+
+/** What a script declares about itself next to its default export */
+export interface ScriptDeclarations {
+  /** `export const name`, used as its tool name when scripts are exposed as tools. */
+  name?: string;
+  /** `export const description`. */
+  description?: string;
+  /** `export const params`, in the same format as a shortcut's params: block; args are checked against it when given. */
+  params?: Record<string, ShortcutParamSpec>;
+}
+
+/** A script module loaded, with its declarations */
+export interface LoadedScript extends ScriptDeclarations {
+  /** Absolute path of the file. */
+  path: string;
+  run: (context: Record<string, unknown>) => unknown;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.js', '.cjs'];
+
+export function scriptsDir(baseDir: string) {
+  return path.join(baseDir, '.playwright-mcp', 'scripts');
+}
+
+/**
+ * Find a script file: absolute, in .playwright-mcp/scripts/, or relative to the base directory
+ */
+export function resolveScriptPath(baseDir: string, scriptPath: string) {
+  let resolvedPath = scriptPath;
+  if (!path.isAbsolute(scriptPath)) {
+    // Check in .playwright-mcp/scripts first
+    const scriptInDir = path.join(scriptsDir(baseDir), scriptPath);
+
+    if (fs.existsSync(scriptInDir)) {
+      resolvedPath = scriptInDir;
+    } else if (fs.existsSync(path.join(baseDir, scriptPath))) {
+      resolvedPath = path.join(baseDir, scriptPath);
+    }
+  }
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Script file not found: ${resolvedPath}\nSearched in: .playwright-mcp/scripts/ and workspace root`);
+  }
+  return resolvedPath;
+}
+
+/**
+ * Script files in a folder and its subfolders
+ */
+export function listScriptFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listScriptFiles(entryPath);
+      return SCRIPT_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts') ? [entryPath] : [];
+    })
+    .sort();
+}
+
+/**
+ * Load a script module fresh from disk (edits are picked up without a restart) and read its declarations
+ */
+export function loadScript(file: string): LoadedScript {
+  let scriptModule: any;
+  try {
+    if (file.endsWith('.ts')) {
+      // Register ts-node for TypeScript execution
+      require('ts-node').register({
+        transpileOnly: true,
+        compilerOptions: {
+          module: 'commonjs',
+          target: 'es2020',
+        },
+      });
+    }
+
+    // Clear module cache to ensure fresh execution
+    delete require.cache[require.resolve(file)];
+
+    scriptModule = require(file);
+  } catch (error: any) {
+    throw new Error(`Failed to load script: ${error.message}`);
+  }
+
+  // Get the default export or the module itself
+  const run = scriptModule.default || scriptModule;
+  if (typeof run !== 'function') {
+    throw new Error('Script must export a default function');
+  }
+
+  // A module that is only a function (module.exports = ...) declares nothing; its own .name is not a tool name
+  return { path: file, run, ...checkDeclarations(scriptModule === run ? {} : scriptModule) };
+}
+
+/**
+ * Read the name, description and params a script exports without running it (for listing scripts as tools).
+ * They must be literals: `export const params = { ... }`, or `exports.params = { ... }` in CommonJS.
+ */
+export function readScriptDeclarations(file: string): ScriptDeclarations {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf-8'), ts.ScriptTarget.Latest, false,
+    file.endsWith('.ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS);
+
+  const exported: Record<string, ts.Expression> = {};
+  for (const statement of source.statements) {
+    if (ts.isVariableStatement(statement) && statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+          exported[declaration.name.text] = declaration.initializer;
+        }
+      }
+    } else if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)
+      && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const exportName = commonJsExportName(statement.expression.left);
+      if (exportName) {
+        exported[exportName] = statement.expression.right;
+      }
+    }
+  }
+
+  const declared: Record<string, unknown> = {};
+  for (const key of ['name', 'description', 'params']) {
+    if (exported[key]) {
+      declared[key] = literalValue(exported[key], key);
+    }
+  }
+  return checkDeclarations(declared);
+}
+
+function checkDeclarations(declared: Record<string, any>): ScriptDeclarations {
+  const { name, description } = declared;
+  if (name !== undefined && typeof name !== 'string') {
+    throw new Error('Script "name" export must be a string');
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new Error('Script "description" export must be a string');
+  }
+  const params = declared.params === undefined ? undefined : parseParamSpecs(declared.params);
+  return { name, description, params };
+}
+
+// exports.name or module.exports.name
+function commonJsExportName(target: ts.Expression) {
+  if (!ts.isPropertyAccessExpression(target)) {
+    return undefined;
+  }
+  const owner = target.expression;
+  const isExports = (ts.isIdentifier(owner) && owner.text === 'exports')
+    || (ts.isPropertyAccessExpression(owner) && ts.isIdentifier(owner.expression)
+      && owner.expression.text === 'module' && owner.name.text === 'exports');
+  return isExports ? target.name.text : undefined;
+}
+
+// Strings, numbers, booleans, null, arrays and objects of them, as JSON would hold
+function literalValue(node: ts.Expression, exportName: string): unknown {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return literalValue(node.expression, exportName);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isNumericLiteral(node)) {
+    return Number(node.text);
+  }
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+    return node.kind === ts.SyntaxKind.TrueKeyword;
+  }
+  if (node.kind === ts.SyntaxKind.NullKeyword) {
+    return null;
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map(element => literalValue(element, exportName));
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return Object.fromEntries(node.properties.map(property => {
+      if (!ts.isPropertyAssignment(property)
+        || !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name))) {
+        throw new Error(`Script "${exportName}" export must be a literal; write each property as key: value`);
+      }
+      return [property.name.text, literalValue(property.initializer, exportName)];
+    }));
+  }
+  throw new Error(`Script "${exportName}" export must be a literal to be read without running the script`);
+}
+
+/**
+ * The run_script command: run a script file against the run's page, e.g. to seed data through an API
+ * in a shortcut's before hook. The script gets the same context as with execute-script.
+ */
+export const runScriptCommand: CommandDefinition<{
+  script: z.ZodString;
+  args: z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodUnknown>>;
+}> = {
+  type: 'run_script',
+  description: 'Run a TS/JS script file against the current page, passing it args',
+  schema: {
+    script: z.string().describe('Script file (relative to .playwright-mcp/scripts/, like execute-script)'),
+    args: z.record(z.unknown()).optional().describe('Arguments passed to the script, checked against its params when it declares them')
+  },
+  capture: result => result.result,
+  async run(cmd, { page, session, baseDir, logger, interpolateSecrets }) {
+    const file = resolveScriptPath(baseDir, cmd.script);
+    const script = loadScript(file);
+    const args = script.params ? resolveParams(script.params, cmd.args) : cmd.args ?? {};
+
+    await logger(`  📜 Running script ${path.relative(baseDir, file)}`);
+    const result = await script.run({
+      page,
+      context: session.context,
+      browser: session.context.browser(),
+      args,
+      logger,
+      playwright,
+      env: process.env,
+      interpolateSecrets
+    });
+    return { script: path.relative(baseDir, file), result };
+  }
+};
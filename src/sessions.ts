@@ -0,0 +1,543 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+
+import * as playwright from 'playwright';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ActionSession, DebugLog, DialogPolicy, HarReplay, NetworkMockRule } from './actions/types.js';
+import { isAuthProfileExpired, loadAuthProfile } from './auth-profiles.js';
+import { captureDebugEvents, createDebugLog } from './debug-log.js';
+import { captureDialogs } from './dialogs.js';
+import { captureDownloads } from './downloads.js';
+import { installHarReplay } from './har.js';
+import { installMockRules } from './network-mocks.js';
+import { resumeTracing } from './tracing.js';
+
+export const DEFAULT_SESSION = 'default';
+
+export interface SessionLaunchOptions {
+  /** Browser name as given by the CLI or action (chromium, chrome, edge, firefox, webkit, safari). */
+  browser: string;
+  headless: boolean;
+  contextOptions?: playwright.BrowserContextOptions;
+  /** Base directory (repository root) used to resolve auth profiles. */
+  baseDir: string;
+  /** Auth profile to load into the context when the session is launched. */
+  authProfile?: string;
+  /** Attach to a running Chromium over the Chrome DevTools Protocol instead of launching. */
+  cdpEndpoint?: string;
+  /** Connect to a Playwright browser server websocket instead of launching. */
+  wsEndpoint?: string;
+  /** Absolute folder downloads are saved to; each session gets a subfolder. */
+  downloadsDir: string;
+  /** How JavaScript dialogs are answered in new sessions. */
+  dialogPolicy: DialogPolicy;
+}
+
+/** Browser settings an action asks for explicitly in its definition */
+export interface SessionRequirements {
+  browser?: string;
+  headless?: boolean;
+  contextOptions?: playwright.BrowserContextOptions;
+}
+
+export interface ManagedSession extends ActionSession {
+  browser: playwright.Browser;
+  /** False for dedicated sessions that only own a context in their parent's browser. */
+  ownsBrowser: boolean;
+}
+
+export interface SessionSummary {
+  name: string;
+  browserName: string;
+  headless: boolean;
+  createdAt: string;
+  lastUsedAt: string;
+  url: string | null;
+  pages: number;
+  dedicatedFor?: string;
+  attached?: boolean;
+}
+
+type SessionLogger = (message: string, level?: LoggingLevel) => void | Promise<void>;
+
+// Live browser sessions keyed by session name
+const sessions = new Map<string, ManagedSession>();
+// Launches in flight, so concurrent calls for the same name share one browser
+const pendingLaunches = new Map<string, Promise<ManagedSession>>();
+// Sessions whose browser crashed or was closed by hand, kept until the next call relaunches them
+const lostSessions = new Map<string, LostSession>();
+
+interface LostSession {
+  reason: string;
+  lostAt: string;
+  lastUrl: string | null;
+  contextOptions: playwright.BrowserContextOptions;
+  authProfile?: string;
+  mockRules: NetworkMockRule[];
+  harReplay?: HarReplay;
+  debugLog: DebugLog;
+  dialogPolicy: DialogPolicy;
+}
+
+/**
+ * Map a user-facing browser name to a Playwright browser type and channel
+ */
+export function resolveBrowserType(browser: string) {
+  let browserName = browser.toLowerCase();
+  let channel: string | undefined = undefined;
+
+  if (browserName === 'chrome') {
+    browserName = 'chromium';
+    channel = 'chrome';
+  } else if (browserName === 'edge' || browserName === 'msedge') {
+    browserName = 'chromium';
+    channel = 'msedge';
+  } else if (browserName === 'safari') {
+    browserName = 'webkit';
+  }
+
+  const launcher = (playwright as Record<string, unknown>)[browserName];
+  if (!launcher || !['chromium', 'firefox', 'webkit'].includes(browserName)) {
+    throw new Error(`Unsupported browser: ${browser}. Supported: chromium, chrome, firefox, webkit, edge`);
+  }
+
+  return {
+    browserName,
+    channel,
+    browserType: launcher as playwright.BrowserType<playwright.Browser>
+  };
+}
+
+/**
+ * Return the named session, launching a new browser for it when none exists yet
+ */
+export async function acquireSession(name: string, options: SessionLaunchOptions, logger: SessionLogger): Promise<ManagedSession> {
+  const existing = sessions.get(name);
+  if (existing) {
+    return reuseSession(existing, logger);
+  }
+
+  const pending = pendingLaunches.get(name);
+  if (pending) {
+    return pending;
+  }
+
+  // Relaunch a lost session with the settings it had, so recovery is transparent to the caller
+  const lost = lostSessions.get(name);
+  const launchOptions = lost
+    ? { ...options, contextOptions: lost.contextOptions, authProfile: lost.authProfile ?? options.authProfile }
+    : options;
+
+  const launch = launchSession(name, launchOptions, logger);
+  pendingLaunches.set(name, launch);
+  try {
+    const session = await launch;
+    sessions.set(name, session);
+    if (lost) {
+      lostSessions.delete(name);
+      // Keep the events leading up to the crash
+      session.debugLog = lost.debugLog;
+      session.dialogPolicy = lost.dialogPolicy;
+      await adoptRoutes(session, lost);
+      await logger(`Browser for session "${name}" was lost at ${lost.lostAt} (${lost.reason}) and has been relaunched`, 'warning');
+      await restoreLastUrl(session, lost, logger);
+    }
+    return session;
+  } finally {
+    pendingLaunches.delete(name);
+  }
+}
+
+async function reuseSession(session: ManagedSession, logger: SessionLogger) {
+  await logger(`Reusing browser session "${session.name}"`, 'debug');
+  session.lastUsedAt = new Date().toISOString();
+  if (session.page.isClosed()) {
+    // Every tab was closed, give the session a fresh one
+    await logger(`All tabs in session "${session.name}" were closed, opening a new tab`, 'debug');
+    session.page = await session.context.newPage();
+  }
+  return session;
+}
+
+/**
+ * Describe how an action's explicit requirements differ from a live session
+ * (an empty list means the action can run in the session as-is)
+ */
+export function findSessionConflicts(session: ManagedSession, requirements: SessionRequirements): string[] {
+  const conflicts: string[] = [];
+
+  if (requirements.browser) {
+    const { browserName, channel } = resolveBrowserType(requirements.browser);
+    if ((channel || browserName) !== session.browserName) {
+      conflicts.push(`browser ${channel || browserName} (session runs ${session.browserName})`);
+    }
+  }
+
+  if (requirements.headless !== undefined && requirements.headless !== session.headless) {
+    conflicts.push(`${requirements.headless ? 'headless' : 'headed'} mode (session runs ${session.headless ? 'headless' : 'headed'})`);
+  }
+
+  const contextOptions = (requirements.contextOptions ?? {}) as Record<string, unknown>;
+  const sessionOptions = session.contextOptions as Record<string, unknown>;
+  for (const key of Object.keys(contextOptions)) {
+    if (JSON.stringify(contextOptions[key]) !== JSON.stringify(sessionOptions[key])) {
+      conflicts.push(`contextOptions.${key}`);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Return a companion session of base that satisfies the requirements. A different browser
+ * or headless mode gets its own browser; differing contextOptions only get their own context
+ * in the base session's browser. Companions are named "<base>:<variant>" and reused.
+ */
+export async function acquireDedicatedSession(
+  base: ManagedSession,
+  requirements: SessionRequirements,
+  options: SessionLaunchOptions,
+  logger: SessionLogger
+): Promise<ManagedSession> {
+  const { browserName, channel } = resolveBrowserType(requirements.browser ?? base.browserName);
+  const headless = requirements.headless ?? base.headless;
+  const needsBrowser = (channel || browserName) !== base.browserName || headless !== base.headless;
+  const contextOptions = { ...base.contextOptions, ...requirements.contextOptions };
+
+  const variant = [
+    needsBrowser ? `${channel || browserName}${headless ? '-headless' : ''}` : 'context',
+    requirements.contextOptions && Object.keys(requirements.contextOptions).length
+      ? createHash('sha1').update(JSON.stringify(requirements.contextOptions)).digest('hex').slice(0, 8)
+      : undefined
+  ].filter(Boolean).join('-');
+  const name = `${base.name}:${variant}`;
+
+  const existing = sessions.get(name);
+  if (existing) {
+    return reuseSession(existing, logger);
+  }
+
+  let session: ManagedSession;
+  if (needsBrowser) {
+    // Dedicated browsers are always launched locally, even when the parent is attached
+    session = await launchSession(name, {
+      ...options,
+      browser: channel || browserName,
+      headless,
+      contextOptions,
+      authProfile: base.authProfile ?? options.authProfile,
+      cdpEndpoint: undefined,
+      wsEndpoint: undefined
+    }, logger);
+  } else {
+    await logger(`Creating dedicated context for session "${name}" in the browser of "${base.name}"`, 'debug');
+    const storageState = await resolveLaunchStorageState({ ...options, authProfile: base.authProfile ?? options.authProfile }, logger);
+    session = await createSession(name, base.browser, {
+      browserName: base.browserName,
+      headless: base.headless,
+      ownsBrowser: false,
+      attached: base.attached,
+      downloadsDir: options.downloadsDir,
+      dialogPolicy: options.dialogPolicy
+    }, contextOptions, storageState, base.authProfile ?? options.authProfile);
+  }
+
+  session.dedicatedFor = base.name;
+  session.dialogPolicy = base.dialogPolicy;
+  await adoptRoutes(session, base);
+  sessions.set(name, session);
+  return session;
+}
+
+/**
+ * Give a new session another session's HAR replay and copies of its mock rules (hit counts reset)
+ */
+async function adoptRoutes(session: ManagedSession, from: { mockRules: NetworkMockRule[]; harReplay?: HarReplay }) {
+  session.mockRules = from.mockRules.map(rule => ({ ...rule, hits: 0 }));
+  session.harReplay = from.harReplay;
+  await installHarReplay(session.context, session.harReplay);
+  await installMockRules(session.context, session.mockRules);
+}
+
+async function restoreLastUrl(session: ManagedSession, lost: LostSession, logger: SessionLogger) {
+  if (!lost.lastUrl || !/^https?:/.test(lost.lastUrl)) return;
+  try {
+    await session.page.goto(lost.lastUrl);
+    await logger(`Restored last URL: ${lost.lastUrl}`, 'warning');
+  } catch (error) {
+    await logger(`Could not restore last URL ${lost.lastUrl}: ${(error as Error).message}`, 'warning');
+  }
+}
+
+async function launchSession(name: string, options: SessionLaunchOptions, logger: SessionLogger): Promise<ManagedSession> {
+  if (options.cdpEndpoint) {
+    return attachSession(name, options, logger);
+  }
+
+  const { browserName, channel, browserType } = resolveBrowserType(options.browser);
+  const storageState = await resolveLaunchStorageState(options, logger);
+
+  let browser: playwright.Browser;
+  if (options.wsEndpoint) {
+    await logger(`Connecting to ${browserName} at ${options.wsEndpoint} for session "${name}"`, 'debug');
+    browser = await browserType.connect(options.wsEndpoint);
+  } else {
+    await logger(`Launching ${channel || browserName} for session "${name}"`, 'debug');
+    const launchOptions: playwright.LaunchOptions = { headless: options.headless };
+    if (channel) {
+      launchOptions.channel = channel;
+    }
+    browser = await browserType.launch(launchOptions);
+  }
+
+  return createSession(name, browser, {
+    browserName: channel || browserName,
+    headless: options.headless,
+    ownsBrowser: true,
+    attached: Boolean(options.wsEndpoint),
+    downloadsDir: options.downloadsDir,
+    dialogPolicy: options.dialogPolicy
+  }, { ...options.contextOptions }, storageState, options.authProfile);
+}
+
+/**
+ * Attach to a browser the user already runs (e.g. chrome --remote-debugging-port=9222),
+ * reusing its default context and current tab so existing logins carry over
+ */
+async function attachSession(name: string, options: SessionLaunchOptions, logger: SessionLogger): Promise<ManagedSession> {
+  await logger(`Connecting over CDP to ${options.cdpEndpoint} for session "${name}"`, 'debug');
+  const browser = await playwright.chromium.connectOverCDP(options.cdpEndpoint!);
+  const context = browser.contexts()[0];
+  if (!context) {
+    return createSession(name, browser, {
+      browserName: 'chromium',
+      headless: false,
+      ownsBrowser: true,
+      attached: true,
+      downloadsDir: options.downloadsDir,
+      dialogPolicy: options.dialogPolicy
+    }, { ...options.contextOptions }, undefined, undefined);
+  }
+
+  if (options.authProfile || Object.keys(options.contextOptions ?? {}).length) {
+    await logger('Attached to an existing browser context; auth profile and contextOptions are not applied to it', 'warning');
+  }
+  return createSession(name, browser, {
+    browserName: 'chromium',
+    headless: false,
+    ownsBrowser: true,
+    attached: true,
+    downloadsDir: options.downloadsDir,
+    dialogPolicy: options.dialogPolicy
+  }, {}, undefined, undefined, context);
+}
+
+async function createSession(
+  name: string,
+  browser: playwright.Browser,
+  meta: { browserName: string; headless: boolean; ownsBrowser: boolean; attached?: boolean; downloadsDir: string; dialogPolicy: DialogPolicy },
+  contextOptions: playwright.BrowserContextOptions,
+  storageState: playwright.BrowserContextOptions['storageState'],
+  authProfile: string | undefined,
+  existingContext?: playwright.BrowserContext
+): Promise<ManagedSession> {
+  const context = existingContext ?? await browser.newContext({ ...contextOptions, ...(storageState ? { storageState } : {}) });
+  const page = context.pages().find(candidate => !candidate.isClosed()) ?? await context.newPage();
+  const now = new Date().toISOString();
+
+  const session: ManagedSession = {
+    name,
+    ...meta,
+    downloadsDir: path.join(meta.downloadsDir, name.replace(/[^\w.-]/g, '-')),
+    createdAt: now,
+    lastUsedAt: now,
+    browser,
+    context,
+    page,
+    contextOptions,
+    authProfile: storageState ? authProfile : undefined,
+    mockRules: [],
+    downloads: [],
+    dialogs: [],
+    debugLog: createDebugLog(),
+    activatePage: target => {
+      session.page = target;
+    },
+    recreateContext: overrides => recreateContext(session, overrides),
+    close: async () => {
+      await closeSession(name);
+    }
+  };
+
+  browser.on('disconnected', () => markLost(session, 'browser disconnected'));
+  trackPages(session);
+  return session;
+}
+
+/**
+ * Load the launch auth profile, skipping it with a warning when it is missing or expired
+ */
+async function resolveLaunchStorageState(options: SessionLaunchOptions, logger: SessionLogger) {
+  if (!options.authProfile) return undefined;
+
+  try {
+    const profile = await loadAuthProfile(options.baseDir, options.authProfile);
+    if (isAuthProfileExpired(profile)) {
+      await logger(`Auth profile "${options.authProfile}" expired, starting without it`, 'warning');
+      return undefined;
+    }
+    await logger(`Loading auth profile "${options.authProfile}"`, 'debug');
+    return { cookies: profile.cookies, origins: profile.origins };
+  } catch (error) {
+    await logger(`${(error as Error).message} Starting without it.`, 'warning');
+    return undefined;
+  }
+}
+
+async function recreateContext(session: ManagedSession, overrides: playwright.BrowserContextOptions = {}) {
+  const previousContext = session.context;
+  const previousUrl = session.page.isClosed() ? 'about:blank' : session.page.url();
+  // storageState and recordHar only apply to this context, they are not remembered
+  const { storageState, recordHar, ...rememberedOverrides } = overrides;
+
+  session.contextOptions = { ...session.contextOptions, ...rememberedOverrides };
+  const context = await session.browser.newContext({
+    ...session.contextOptions,
+    ...(storageState ? { storageState } : {}),
+    ...(recordHar ? { recordHar } : {})
+  });
+  session.context = context;
+  session.authProfile = undefined;
+  // Closing the previous context below writes its HAR, ending any recording
+  session.harRecording = undefined;
+  trackPages(session);
+  await installHarReplay(context, session.harReplay);
+  await installMockRules(context, session.mockRules);
+  await resumeTracing(context, session.tracing);
+  session.page = await context.newPage();
+
+  // An attached browser's default context belongs to the user, leave its tabs open
+  if (previousContext !== session.browser.contexts()[0] || !session.attached) {
+    await disposeResource(previousContext);
+  }
+  if (/^https?:/.test(previousUrl)) {
+    await session.page.goto(previousUrl);
+  }
+  return context;
+}
+
+/**
+ * Follow tabs opened in the session's context: new tabs, popups and target=_blank
+ * links become the active page, and closing the active page falls back to the newest remaining tab
+ */
+function trackPages(session: ManagedSession) {
+  const context = session.context;
+  context.on('close', () => {
+    // Contexts replaced by recreateContext() close on purpose
+    if (session.context === context) {
+      markLost(session, 'browser context closed');
+    }
+  });
+
+  for (const page of session.context.pages()) {
+    captureDebugEvents(session.debugLog, page);
+    captureDownloads(session, page);
+    captureDialogs(session, page);
+    watchPageClose(session, page);
+  }
+  session.context.on('page', page => {
+    captureDebugEvents(session.debugLog, page);
+    captureDownloads(session, page);
+    captureDialogs(session, page);
+    if (session.context !== context) return;
+    session.page = page;
+    watchPageClose(session, page);
+  });
+}
+
+function watchPageClose(session: ManagedSession, page: playwright.Page) {
+  page.on('close', () => {
+    if (session.page !== page) return;
+    const remaining = session.context.pages().filter(candidate => !candidate.isClosed());
+    if (remaining.length) {
+      session.page = remaining[remaining.length - 1];
+    }
+  });
+}
+
+/**
+ * Clear references to a session whose browser went away without going through closeSession()
+ */
+function markLost(session: ManagedSession, reason: string) {
+  if (sessions.get(session.name) !== session) return;
+
+  sessions.delete(session.name);
+  if (session.dedicatedFor) {
+    // Dedicated sessions are recreated on demand from their parent's requirements
+    return;
+  }
+  lostSessions.set(session.name, {
+    reason,
+    lostAt: new Date().toISOString(),
+    lastUrl: session.page.url(),
+    contextOptions: session.contextOptions,
+    authProfile: session.authProfile,
+    mockRules: session.mockRules,
+    harReplay: session.harReplay,
+    debugLog: session.debugLog,
+    dialogPolicy: session.dialogPolicy
+  });
+  console.warn(`[playwrighium] Browser session "${session.name}" lost (${reason}); it will be relaunched on the next call`);
+}
+
+/**
+ * Whether the session is still registered (false once it was closed or lost)
+ */
+export function isSessionLive(session: ManagedSession): boolean {
+  return sessions.get(session.name) === session;
+}
+
+export function listSessions(): SessionSummary[] {
+  return [...sessions.values()].map(session => ({
+    name: session.name,
+    browserName: session.browserName,
+    headless: session.headless,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    url: session.page.isClosed() ? null : session.page.url(),
+    pages: session.context.pages().length,
+    dedicatedFor: session.dedicatedFor,
+    attached: session.attached
+  }));
+}
+
+/**
+ * Close the named session's browser (or only its context for dedicated context sessions)
+ * together with its dedicated sessions, and remove them from the registry.
+ * For attached browsers Browser.close() only disconnects, the user's browser keeps running.
+ */
+export async function closeSession(name: string): Promise<boolean> {
+  lostSessions.delete(name);
+  const session = sessions.get(name);
+  if (!session) return false;
+
+  sessions.delete(name);
+  const companions = [...sessions.values()].filter(candidate => candidate.dedicatedFor === name);
+  await Promise.all(companions.map(companion => closeSession(companion.name)));
+  if (session.harRecording && session.ownsBrowser) {
+    // HAR files are only written when their context closes, closing the browser would drop them
+    await disposeResource(session.context);
+  }
+  await disposeResource(session.ownsBrowser ? session.browser : session.context);
+  return true;
+}
+
+async function disposeResource(resource: { close: () => Promise<unknown> } | undefined) {
+  if (!resource) return;
+  try {
+    await resource.close();
+  } catch (error) {
+    console.warn('[playwrighium] Failed to dispose resource', error);
+  }
+}
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+
+export type ParamValue = string | number | boolean | unknown[];
+
+/** One entry of a shortcut's `params:` block */
+export interface ShortcutParamSpec {
+  /** A list holds any JSON values, e.g. product names for for_each. */
+  type: 'string' | 'number' | 'boolean' | 'list';
+  description?: string;
+  required?: boolean;
+  default?: ParamValue;
+  /** Allowed values. */
+  enum?: ParamValue[];
+}
+
+const scalarValue = z.union([z.string(), z.number(), z.boolean()]);
+export const paramSpecSchema = z.object({
+  type: z.enum(['string', 'number', 'boolean', 'list']).default('string'),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  default: z.union([scalarValue, z.array(z.unknown())]).optional(),
+  enum: z.array(scalarValue).nonempty().optional()
+}).strict();
+
+// {{params.name}}; unlike ${{VAR}} there is no leading $, so .env placeholders are left alone
+const PARAM_PATTERN = /(?<!\$)\{\{\s*params\.([A-Za-z_][\w-]*)\s*\}\}/g;
+const WHOLE_PARAM_PATTERN = /^(?<!\$)\{\{\s*params\.([A-Za-z_][\w-]*)\s*\}\}$/;
+
+/**
+ * Read a shortcut's `params:` block; `name: number` is short for `name: { type: number }`
+ */
+export function parseParamSpecs(block: unknown): Record<string, ShortcutParamSpec> {
+  if (block === undefined || block === null) {
+    return {};
+  }
+  if (typeof block !== 'object' || Array.isArray(block)) {
+    throw new Error('Shortcut "params" must map each param name to its type or definition');
+  }
+
+  const specs: Record<string, ShortcutParamSpec> = {};
+  const errors: string[] = [];
+  for (const [name, raw] of Object.entries(block)) {
+    if (!/^[A-Za-z_][\w-]*$/.test(name)) {
+      errors.push(`- ${name}: param names may only contain letters, digits, _ and -`);
+      continue;
+    }
+    const parsed = paramSpecSchema.safeParse(typeof raw === 'string' ? { type: raw } : raw ?? {});
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map(issue => `- ${[name, ...issue.path].join('.')}: ${issue.message}`));
+      continue;
+    }
+    const spec = parsed.data;
+    if (spec.default !== undefined) {
+      const problem = checkValue(spec, spec.default);
+      if (problem) {
+        errors.push(`- ${name}.default: ${problem}`);
+        continue;
+      }
+    }
+    specs[name] = spec;
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid shortcut params:\n${errors.join('\n')}`);
+  }
+  return specs;
+}
+
+/** Values of a run's params; declared optional params without a value are present as undefined */
+export type ParamValues = Record<string, ParamValue | undefined>;
+
+/**
+ * Check the params given to a run against the specs and fill in defaults
+ */
+export function resolveParams(specs: Record<string, ShortcutParamSpec>, given: Record<string, unknown> = {}): ParamValues {
+  const values: ParamValues = {};
+  const errors: string[] = [];
+
+  for (const name of Object.keys(given)) {
+    if (!specs[name]) {
+      const declared = Object.keys(specs);
+      errors.push(`- ${name}: unknown param (${declared.length ? `declared: ${declared.join(', ')}` : 'the shortcut declares no params'})`);
+    }
+  }
+
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = given[name] ?? spec.default;
+    values[name] = undefined;
+    if (value === undefined) {
+      if (spec.required) {
+        errors.push(`- ${name}: required ${spec.type} param is missing${spec.description ? ` (${spec.description})` : ''}`);
+      }
+      continue;
+    }
+    const problem = checkValue(spec, value);
+    if (problem) {
+      errors.push(`- ${name}: ${problem}`);
+      continue;
+    }
+    values[name] = value as ParamValue;
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid params:\n${errors.join('\n')}`);
+  }
+  return values;
+}
+
+/**
+ * Convert text values (CSV cells) to the declared types before resolveParams checks them:
+ * "42" for a number, "true"/"false" for a boolean, a JSON array or comma-separated items for a list.
+ * Text that does not convert is left as is, so resolveParams reports it.
+ */
+export function coerceParams(specs: Record<string, ShortcutParamSpec>, given: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(given).map(([name, value]) => {
+    const type = specs[name]?.type;
+    if (typeof value !== 'string' || !type || type === 'string') {
+      return [name, value];
+    }
+    const text = value.trim();
+    if (type === 'number') {
+      return [name, text !== '' && Number.isFinite(Number(text)) ? Number(text) : value];
+    }
+    if (type === 'boolean') {
+      return [name, /^(true|false)$/i.test(text) ? text.toLowerCase() === 'true' : value];
+    }
+    if (text.startsWith('[')) {
+      try {
+        return [name, JSON.parse(text)];
+      } catch {
+        return [name, value];
+      }
+    }
+    return [name, text.split(',').map(item => item.trim())];
+  }));
+}
+
+/**
+ * Zod shape of the specs, for tools that take the params as their input; defaults and
+ * required are still applied by resolveParams
+ */
+export function paramSpecsShape(specs: Record<string, ShortcutParamSpec>): z.ZodRawShape {
+  return Object.fromEntries(Object.entries(specs).map(([name, spec]) => {
+    let schema: z.ZodTypeAny = spec.type === 'list' ? z.array(z.unknown()) : spec.type === 'number' ? z.number() : spec.type === 'boolean' ? z.boolean() : z.string();
+    if (spec.enum) {
+      const [first, second, ...rest] = spec.enum.map(option => z.literal(option as string | number | boolean));
+      schema = second ? z.union([first, second, ...rest]) : first;
+    }
+    const defaultNote = spec.default !== undefined ? `default: ${JSON.stringify(spec.default)}` : undefined;
+    const description = spec.description && defaultNote ? `${spec.description} (${defaultNote})` : spec.description ?? defaultNote;
+    if (description) {
+      schema = schema.describe(description);
+    }
+    return [name, spec.required && spec.default === undefined ? schema : schema.optional()];
+  }));
+}
+
+/**
+ * Replace {{params.name}} placeholders in every string of `value`.
+ * A string that is only a placeholder takes the param's value as is, so numbers and booleans keep their type.
+ */
+export function substituteParams<T>(value: T, params: ParamValues): T {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_PARAM_PATTERN);
+    if (whole) {
+      return lookup(params, whole[1]) as T;
+    }
+    return value.replace(PARAM_PATTERN, (_, name) => {
+      const param = lookup(params, name);
+      return Array.isArray(param) ? JSON.stringify(param) : String(param ?? '');
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteParams(item, params)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteParams(item, params)])) as T;
+  }
+  return value;
+}
+
+function lookup(params: ParamValues, name: string) {
+  if (!Object.prototype.hasOwnProperty.call(params, name)) {
+    throw new Error(`Unknown param "${name}" in {{params.${name}}}`);
+  }
+  return params[name];
+}
+
+function checkValue(spec: ShortcutParamSpec, value: unknown) {
+  if (spec.type === 'list') {
+    return Array.isArray(value) ? undefined : `expected a list, got ${JSON.stringify(value)}`;
+  }
+  if (typeof value !== spec.type || (spec.type === 'number' && !Number.isFinite(value))) {
+    return `expected a ${spec.type}, got ${JSON.stringify(value)}`;
+  }
+  if (spec.enum && !spec.enum.includes(value as ParamValue)) {
+    return `must be one of ${spec.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import YAML, { LineCounter } from 'yaml';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { commandShape, findCommandIssues, getCommand, listCommandTypes } from './commands.js';
+import { conditionSchema } from './control-flow.js';
+import { TOOL_NAME_PATTERN } from './file-tools.js';
+import { resolveScriptPath } from './scripts.js';
+import { paramSpecSchema, parseParamSpecs, substituteParams } from './shortcut-params.js';
+import type { ParamValues, ShortcutParamSpec } from './shortcut-params.js';
+import { SHORTCUT_HOOKS, listShortcutFiles, resolveShortcutPath, shortcutsDir } from './shortcuts.js';
+
+/** A problem found in a shortcut file without running it */
+export interface ShortcutProblem {
+  /** Absolute path of the file. */
+  file: string;
+  /** 1-based line and column the problem points at. */
+  line: number;
+  column: number;
+  message: string;
+}
+
+/** File the JSON Schema of the shortcut format is written to, next to action-types.d.ts */
+export const SHORTCUT_SCHEMA_FILE = 'shortcut.schema.json';
+
+// Top-level fields besides params and commands, as execute-shortcut reads them
+const SHORTCUT_FIELDS = {
+  name: z.string().regex(TOOL_NAME_PATTERN, 'letters, digits, _ and - only (at most 64)').optional()
+    .describe('Tool name when shortcuts are exposed as their own tools (default: from the file name)'),
+  description: z.string().optional().describe('What the shortcut does, shown as its tool description'),
+  requiresAuth: z.union([
+    z.string(),
+    z.object({ profile: z.string(), maxAge: z.number().positive().optional().describe('Reject profiles older than this many minutes') }).strict()
+  ]).optional().describe('Auth profile (see the auth-state action) loaded before the commands run'),
+  mocks: z.array(z.object({
+    id: z.string().optional(),
+    url: z.string().describe('URL glob like "**/api/orders*" or regex like "/orders\\/\\d+$/i"'),
+    method: z.string().optional(),
+    status: z.number().int().min(100).max(599).optional(),
+    headers: z.record(z.string()).optional(),
+    body: z.any().optional(),
+    bodyFile: z.string().optional(),
+    contentType: z.string().optional(),
+    abort: z.union([z.boolean(), z.string()]).optional(),
+    delay: z.number().int().nonnegative().optional(),
+    times: z.number().int().positive().optional()
+  }).strict()).optional().describe('Network mocks installed while the shortcut runs'),
+  har: z.union([
+    z.string(),
+    z.object({
+      replay: z.string(),
+      notFound: z.enum(['abort', 'fallback']).optional(),
+      url: z.string().optional()
+    }).strict()
+  ]).optional().describe('HAR file (from test-results/har/) whose responses are replayed while the shortcut runs')
+};
+const KNOWN_FIELDS = ['params', 'commands', ...SHORTCUT_HOOKS, ...Object.keys(SHORTCUT_FIELDS)];
+
+// Stand-ins for params without a default, so commands using them can still be checked
+const SAMPLE_VALUES: Record<ShortcutParamSpec['type'], ParamValues[string]> = { string: '', number: 0, boolean: false, list: [] };
+
+/**
+ * Check a shortcut file the way execute-shortcut would load it, without a browser:
+ * YAML syntax, undefined ${{VAR}}s, params, command types and fields (hooks included), and call targets
+ */
+export function validateShortcutFile(file: string, baseDir: string, env: Record<string, string | undefined> = process.env): ShortcutProblem[] {
+  const text = fs.readFileSync(file, 'utf-8');
+  const lineCounter = new LineCounter();
+  const doc = YAML.parseDocument(text, { lineCounter });
+  const problems: ShortcutProblem[] = [];
+  const at = (offset: number, message: string) => {
+    const { line, col } = lineCounter.linePos(offset);
+    problems.push({ file, line, column: col, message });
+  };
+  // Points at the deepest node along the path that exists, e.g. the command when a field is missing
+  const report = (nodePath: Array<string | number>, message: string) => {
+    for (let depth = nodePath.length; depth >= 0; depth--) {
+      const node = doc.getIn(nodePath.slice(0, depth), true) as { range?: [number, number, number] } | undefined;
+      if (node?.range) {
+        return at(node.range[0], message);
+      }
+    }
+    at(0, message);
+  };
+
+  for (const error of doc.errors) {
+    at(error.pos[0], error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''));
+  }
+  if (doc.errors.length) {
+    return problems;
+  }
+
+  for (const match of text.matchAll(/\$\{\{([^}]+)\}\}/g)) {
+    const name = match[1].trim();
+    if (env[name] === undefined) {
+      at(match.index!, `Environment variable "${name}" is not defined. Make sure it's set in .env file at repository root`);
+    }
+  }
+
+  const data = doc.toJS() as Record<string, unknown> | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.commands)) {
+    report(['commands'], 'Shortcut file must contain a "commands" array');
+    return problems;
+  }
+
+  for (const field of Object.keys(data).filter(key => !KNOWN_FIELDS.includes(key))) {
+    report([field], `Unknown top-level field "${field}" (ignored when run). Known: ${KNOWN_FIELDS.join(', ')}`);
+  }
+  for (const [field, schema] of Object.entries(SHORTCUT_FIELDS)) {
+    const parsed = schema.safeParse(substituteSecrets(data[field], env));
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues.flatMap(unwrapUnion)) {
+        report([field, ...issue.path], `${[field, ...issue.path].join('.')}: ${issue.message}`);
+      }
+    }
+  }
+
+  let params: ParamValues = {};
+  try {
+    params = Object.fromEntries(Object.entries(parseParamSpecs(data.params))
+      .map(([name, spec]) => [name, spec.default ?? spec.enum?.[0] ?? SAMPLE_VALUES[spec.type]]));
+  } catch (error) {
+    // One "- name...: problem" line per param
+    const [summary, ...lines] = (error as Error).message.split('\n');
+    for (const line of lines) {
+      const name = line.replace(/^- /, '').split(/[.:]/)[0];
+      report(['params', name], `${summary.replace(/:$/, '')}: ${line.replace(/^- /, '')}`);
+    }
+  }
+
+  for (const section of ['commands', ...SHORTCUT_HOOKS]) {
+    if (data[section] === undefined) continue;
+    if (!Array.isArray(data[section])) {
+      report([section], `Shortcut "${section}" must be a list of commands`);
+      continue;
+    }
+    // Hook commands are labelled like "before command 2"
+    const label = section === 'commands' ? 'command' : `${section} command`;
+    for (const [index, raw] of (data[section] as unknown[]).entries()) {
+      const nodePath = [section, index];
+      let command: unknown;
+      try {
+        command = substituteSecrets(substituteParams(raw, params), env);
+      } catch (error) {
+        report(nodePath, `${label} ${index + 1}: ${(error as Error).message}`);
+        continue;
+      }
+      for (const issue of findCommandIssues(command, { strict: true })) {
+        report([...nodePath, ...issue.path], `${label} ${index + 1}: ${issue.message}`);
+      }
+      checkCallTargets(command, nodePath, baseDir, report);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate one shortcut file, or every .yaml/.yml file under a folder (default: .playwright-mcp/shortcuts/)
+ */
+export function validateShortcuts(baseDir: string, target?: string) {
+  let resolved = target ? path.resolve(baseDir, target) : shortcutsDir(baseDir);
+  if (target && !fs.existsSync(resolved)) {
+    resolved = resolveShortcutPath(baseDir, target);
+  }
+  const files = fs.statSync(resolved).isDirectory() ? listShortcutFiles(resolved) : [resolved];
+  const problems = files.flatMap(file => validateShortcutFile(file, baseDir));
+  return { files, problems };
+}
+
+/** Compiler-style line for a problem: "login.yaml:12:7: message", relative to the base directory */
+export function formatProblem(problem: ShortcutProblem, baseDir: string) {
+  return `${path.relative(baseDir, problem.file)}:${problem.line}:${problem.column}: ${problem.message}`;
+}
+
+/**
+ * JSON Schema of the shortcut format, with every registered command type, for editor autocompletion
+ */
+export function shortcutJsonSchema() {
+  const command: z.ZodTypeAny = z.lazy(() => z.union(variants as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]));
+  const variants = listCommandTypes().map(type => {
+    const definition = getCommand(type)!;
+    const shape: z.ZodRawShape = { ...commandShape(definition), type: z.literal(type) };
+    for (const field of definition.blocks ?? []) {
+      shape[field] = definition.schema[field].isOptional() ? z.array(command).optional() : z.array(command);
+    }
+    return z.object(shape).strict().describe(definition.description ?? type);
+  });
+  const shortcut = z.object({
+    params: z.record(z.union([paramSpecSchema.shape.type.removeDefault(), paramSpecSchema]))
+      .optional().describe('Per-run inputs, used as {{params.name}}'),
+    ...SHORTCUT_FIELDS,
+    before: z.array(command).optional().describe('Commands run first; when one fails the commands are skipped'),
+    commands: z.array(command),
+    afterFailure: z.array(command).optional().describe('Commands run after a failure (in before or the commands), before after'),
+    after: z.array(command).optional().describe('Commands run last, whether or not the shortcut failed')
+  }).strict();
+
+  return {
+    title: 'Playwrightium shortcut',
+    ...zodToJsonSchema(shortcut, { definitions: { command, condition: conditionSchema } })
+  };
+}
+
+/**
+ * Write the JSON Schema to a file (by default .playwright-mcp/shortcut.schema.json), leaving it alone when nothing changed
+ */
+export function writeShortcutSchema(file: string) {
+  const content = `${JSON.stringify(shortcutJsonSchema(), null, 2)}\n`;
+  if (!fs.existsSync(file) || fs.readFileSync(file, 'utf-8') !== content) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+  return file;
+}
+
+// "Invalid input" for a string-or-object field says little; report what is wrong with the object form instead
+function unwrapUnion(issue: z.ZodIssue): z.ZodIssue[] {
+  if (issue.code !== 'invalid_union') {
+    return [issue];
+  }
+  const closest = issue.unionErrors.find(error => error.issues.some(nested => nested.path.length > issue.path.length));
+  return closest ? closest.issues.flatMap(unwrapUnion) : [issue];
+}
+
+// ${{VAR}} as execute-shortcut substitutes it before parsing the YAML: a value that is only a placeholder takes the variable's type
+function substituteSecrets(value: unknown, env: Record<string, string | undefined>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\$\{\{([^}]+)\}\}$/);
+    const defined = whole && env[whole[1].trim()];
+    if (defined !== undefined && defined !== null) {
+      return YAML.parse(defined) ?? defined;
+    }
+    return value.replace(/\$\{\{([^}]+)\}\}/g, (placeholder, name) => env[name.trim()] ?? placeholder);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteSecrets(item, env));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteSecrets(item, env)]));
+  }
+  return value;
+}
+
+// A call or run_script whose file does not exist, in this command or the blocks it holds
+function checkCallTargets(command: unknown, nodePath: Array<string | number>, baseDir: string, report: (nodePath: Array<string | number>, message: string) => void) {
+  if (!command || typeof command !== 'object') return;
+  const { type, shortcut, script } = command as Record<string, unknown>;
+  if (type === 'call' && typeof shortcut === 'string' && !shortcut.includes('{{')) {
+    try {
+      resolveShortcutPath(baseDir, shortcut);
+    } catch {
+      report([...nodePath, 'shortcut'], `call: shortcut file not found: ${shortcut}`);
+    }
+  }
+  if (type === 'run_script' && typeof script === 'string' && !script.includes('{{')) {
+    try {
+      resolveScriptPath(baseDir, script);
+    } catch {
+      report([...nodePath, 'script'], `run_script: script file not found: ${script}`);
+    }
+  }
+  for (const field of getCommand(String(type))?.blocks ?? []) {
+    const block = (command as Record<string, unknown>)[field];
+    if (!Array.isArray(block)) continue;
+    block.forEach((nested, index) => checkCallTargets(nested, [...nodePath, field, index], baseDir, report));
+  }
+}
@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+
+import type { CommandDefinition } from './actions/types.js';
+import { StepFailure, parseCommands } from './commands.js';
+import type { ParsedCommand } from './commands.js';
+import { coerceParams, parseParamSpecs, resolveParams, substituteParams } from './shortcut-params.js';
+import type { ParamValues } from './shortcut-params.js';
+
+/** A shortcut file read, with params checked and substituted and commands validated */
+export interface LoadedShortcut {
+  /** Absolute path of the file. */
+  path: string;
+  /** Top-level fields besides params (requiresAuth, mocks, har, ...), params substituted. */
+  data: Record<string, any>;
+  commands: ParsedCommand[];
+  /** Commands run before the commands, and after them (always, or only when something failed). */
+  hooks: Partial<Record<ShortcutHook, ParsedCommand[]>>;
+  params: ParamValues;
+}
+
+/** Sections of commands execute-shortcut runs around a shortcut's commands */
+export const SHORTCUT_HOOKS = ['before', 'after', 'afterFailure'] as const;
+
+export type ShortcutHook = typeof SHORTCUT_HOOKS[number];
+
+/**
+ * Thrown by the call command; the message carries the include stack, e.g. "checkout.yaml > login.yaml step 3: ..."
+ */
+export class ShortcutCallError extends Error {
+  constructor(
+    message: string,
+    /** What the failing step in the called shortcut threw, if a step failed. */
+    readonly error?: unknown
+  ) {
+    super(message);
+    this.name = 'ShortcutCallError';
+  }
+}
+
+// Fields only execute-shortcut applies, since they change the session around the whole run
+const TOP_LEVEL_ONLY = ['requiresAuth', 'mocks', 'har', ...SHORTCUT_HOOKS];
+
+export function shortcutsDir(baseDir: string) {
+  return path.join(baseDir, '.playwright-mcp', 'shortcuts');
+}
+
+/**
+ * Shortcut (.yaml/.yml) files in a folder and its subfolders
+ */
+export function listShortcutFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listShortcutFiles(entryPath);
+      return /\.ya?ml$/i.test(entry.name) ? [entryPath] : [];
+    })
+    .sort();
+}
+
+/**
+ * Find a shortcut file: absolute, in .playwright-mcp/shortcuts/, or relative to the base directory
+ */
+export function resolveShortcutPath(baseDir: string, shortcutPath: string) {
+  let resolvedPath = shortcutPath;
+  if (!path.isAbsolute(shortcutPath)) {
+    // Check in .playwright-mcp/shortcuts first
+    const shortcutInDir = path.join(shortcutsDir(baseDir), shortcutPath);
+
+    if (fs.existsSync(shortcutInDir)) {
+      resolvedPath = shortcutInDir;
+    } else if (fs.existsSync(path.join(baseDir, shortcutPath))) {
+      resolvedPath = path.join(baseDir, shortcutPath);
+    }
+  }
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Shortcut file not found: ${resolvedPath}\nSearched in: .playwright-mcp/shortcuts/ and workspace root`);
+  }
+  return resolvedPath;
+}
+
+/**
+ * Name of a shortcut file as shown in include stacks: relative to the shortcuts folder when inside it
+ */
+export function shortcutName(baseDir: string, file: string) {
+  const relative = path.relative(shortcutsDir(baseDir), file);
+  return relative.startsWith('..') || path.isAbsolute(relative) ? path.relative(baseDir, file) : relative;
+}
+
+/**
+ * Read a shortcut file, interpolate ${{VAR}} secrets, check the given params against its
+ * params: block and validate its commands, all before anything touches the browser.
+ * With coerceParams, given values that are text are converted to the declared param types.
+ */
+export function loadShortcut(
+  file: string,
+  interpolateSecrets: (text: string) => string,
+  givenParams?: Record<string, unknown>,
+  options: { coerceParams?: boolean } = {}
+): LoadedShortcut {
+  // Interpolate secrets before parsing YAML
+  const interpolatedYaml = interpolateSecrets(fs.readFileSync(file, 'utf-8'));
+
+  let shortcutData: any;
+  try {
+    shortcutData = YAML.parse(interpolatedYaml);
+  } catch (error: any) {
+    throw new Error(`Failed to parse YAML shortcut: ${error.message}`);
+  }
+
+  if (!shortcutData?.commands || !Array.isArray(shortcutData.commands)) {
+    throw new Error('Shortcut file must contain a "commands" array');
+  }
+
+  const specs = parseParamSpecs(shortcutData.params);
+  // Values read as text (CSV datasets) are converted to the declared types first
+  const params = resolveParams(specs, options.coerceParams && givenParams ? coerceParams(specs, givenParams) : givenParams);
+  const { params: _declared, ...body } = shortcutData;
+  const data = substituteParams(body, params);
+  // Same registry and validation as browser-session; nothing runs if a command is malformed
+  const commands = parseCommands(data.commands);
+  const hooks: LoadedShortcut['hooks'] = {};
+  for (const hook of SHORTCUT_HOOKS) {
+    if (data[hook] === undefined) continue;
+    if (!Array.isArray(data[hook])) {
+      throw new Error(`Shortcut "${hook}" must be a list of commands`);
+    }
+    try {
+      hooks[hook] = parseCommands(data[hook]);
+    } catch (error) {
+      throw new Error(`${hook}: ${(error as Error).message}`);
+    }
+  }
+
+  return { path: file, data, commands, hooks, params };
+}
+
+/**
+ * The call command: run another shortcut's commands inline, as nested steps of the caller
+ */
+export const callCommand: CommandDefinition<{
+  shortcut: z.ZodString;
+  params: z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodUnknown>>;
+}> = {
+  type: 'call',
+  description: 'Run another shortcut\'s commands inline, passing it params',
+  schema: {
+    shortcut: z.string().describe('Shortcut file (relative to .playwright-mcp/shortcuts/, like execute-shortcut)'),
+    params: z.record(z.unknown()).optional().describe('Values for the called shortcut\'s params')
+  },
+  async run(cmd, { baseDir, state, logger, interpolateSecrets, runBlock }) {
+    const file = resolveShortcutPath(baseDir, cmd.shortcut);
+    const trail = [...state.shortcuts, file].map(entry => shortcutName(baseDir, entry)).join(' > ');
+    if (state.shortcuts.includes(file)) {
+      throw new ShortcutCallError(`Shortcut cycle: ${trail}`);
+    }
+
+    let shortcut: LoadedShortcut;
+    try {
+      shortcut = loadShortcut(file, interpolateSecrets, cmd.params);
+    } catch (error) {
+      throw new ShortcutCallError(`${trail}: ${(error as Error).message}`);
+    }
+    const unsupported = TOP_LEVEL_ONLY.filter(field => shortcut.data[field] !== undefined);
+    if (unsupported.length) {
+      throw new ShortcutCallError(`${trail}: ${unsupported.join(', ')} only apply to shortcuts run with execute-shortcut; declare them in the calling shortcut`);
+    }
+
+    await logger(`  📎 Calling ${trail} (${shortcut.commands.length} command(s))`);
+    // The called shortcut sees its own params only, not the caller's loop variables
+    const callerVars = state.vars;
+    state.vars = {};
+    state.shortcuts.push(file);
+    try {
+      await runBlock(shortcut.commands);
+    } catch (error) {
+      if (!(error instanceof StepFailure)) throw error;
+      // A call further down already reported the whole stack
+      throw findCallError(error) ?? new ShortcutCallError(`${trail} step ${error.index}: ${describeFailure(error)}`, error.error);
+    } finally {
+      state.shortcuts.pop();
+      state.vars = callerVars;
+    }
+
+    return {
+      shortcut: shortcutName(baseDir, file),
+      commandsExecuted: shortcut.commands.length,
+      ...(Object.keys(shortcut.params).length ? { params: shortcut.params } : {})
+    };
+  }
+};
+
+/**
+ * The call error behind a failure, looking through the blocks (if, retry, ...) it happened in
+ */
+export function findCallError(failure: unknown): ShortcutCallError | undefined {
+  let error = failure;
+  while (error instanceof StepFailure) {
+    error = error.error;
+  }
+  return error instanceof ShortcutCallError ? error : undefined;
+}
+
+// What went wrong in the called shortcut's step, without the caller-relative step label
+function describeFailure(failure: StepFailure) {
+  const error = failure.error;
+  return error instanceof Error ? error.message : String(error ?? failure.message);
+}
@@ -0,0 +1,20 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import type { TestResultBuilder } from './actions/create-test-result.js';
+
+/** A complete test result JSON file, as create-test-result finalizes it and generate-summary-report reads it */
+export type TestResultRecord = Required<Omit<TestResultBuilder, 'artifacts'>> & Pick<TestResultBuilder, 'artifacts'>;
+
+export const DEFAULT_TEST_RESULTS_DIR = 'test-results/json';
+
+/**
+ * Save a test result as <testId>-<timestamp>.json in the results folder (default: test-results/json)
+ */
+export async function writeTestResult(baseDir: string, record: TestResultRecord, outputDir = DEFAULT_TEST_RESULTS_DIR) {
+  const outputPath = path.isAbsolute(outputDir) ? outputDir : path.join(baseDir, outputDir);
+  const file = path.join(outputPath, `${record.testCase.id}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+  await fs.mkdir(outputPath, { recursive: true });
+  await fs.writeFile(file, JSON.stringify(record, null, 2), 'utf-8');
+  return file;
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BrowserContext } from 'playwright';
+
+import type { ActionSession, TraceRecording } from './actions/types.js';
+
+/** Trace files live next to the other test artifacts so reports can link to them */
+export function tracesDir(baseDir: string) {
+  return path.join(baseDir, 'test-results', 'traces');
+}
+
+/**
+ * Start tracing the session's context with screenshots, DOM snapshots and sources
+ */
+export async function startTracing(session: ActionSession, title?: string): Promise<TraceRecording> {
+  if (session.tracing) {
+    throw new Error(`Session "${session.name}" is already tracing since ${session.tracing.startedAt}. Stop that trace first.`);
+  }
+
+  const tracing: TraceRecording = { startedAt: new Date().toISOString(), title };
+  await resumeTracing(session.context, tracing);
+  session.tracing = tracing;
+  return tracing;
+}
+
+/**
+ * Stop tracing and write test-results/traces/<name>.zip
+ */
+export async function stopTracing(
+  session: ActionSession,
+  baseDir: string,
+  name?: string
+): Promise<TraceRecording & { path: string }> {
+  const tracing = session.tracing;
+  if (!tracing) {
+    throw new Error(`Session "${session.name}" is not tracing. Start a trace first.`);
+  }
+  if (name !== undefined && !/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid trace name "${name}". Use letters, numbers, dots, dashes and underscores only.`);
+  }
+
+  const fileName = name?.replace(/\.zip$/, '')
+    ?? `${session.name.replace(/[^\w.-]/g, '-')}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  const tracePath = path.join(tracesDir(baseDir), `${fileName}.zip`);
+  await fs.mkdir(path.dirname(tracePath), { recursive: true });
+
+  session.tracing = undefined;
+  await session.context.tracing.stop({ path: tracePath });
+  return { ...tracing, path: tracePath };
+}
+
+/**
+ * Start Playwright tracing on a (new) context for a running trace
+ */
+export async function resumeTracing(context: BrowserContext, tracing: TraceRecording | undefined) {
+  if (!tracing) return;
+  await context.tracing.start({
+    screenshots: true,
+    snapshots: true,
+    sources: true,
+    ...(tracing.title ? { title: tracing.title } : {})
+  });
+}
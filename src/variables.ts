@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+/** Name of a variable set while commands run; "params" is taken by {{params.name}} */
+export const variableName = z.string()
+  .regex(/^[A-Za-z_][\w-]*$/, 'Use letters, digits, _ and -')
+  .refine(name => name !== 'params', 'params is reserved for {{params.name}}');
+
+// {{name}} or {{name.field}}; ${{VAR}} (.env) and {{params.name}} (resolved when the shortcut loads) are left alone
+const VARIABLE_PATTERN = /(?<!\$)\{\{\s*([A-Za-z_][\w-]*(?:\.[\w-]+)*)\s*\}\}/g;
+const WHOLE_VARIABLE_PATTERN = /^(?<!\$)\{\{\s*([A-Za-z_][\w-]*(?:\.[\w-]+)*)\s*\}\}$/;
+
+/**
+ * Replace {{name}} placeholders of variables set while commands run, such as a for_each item.
+ * Placeholders naming unknown variables stay as they are, so literal "{{...}}" text still works.
+ * Fields listed in `skip` (nested command blocks) are left for when they run.
+ */
+export function substituteVariables<T>(value: T, vars: Record<string, unknown>, skip: string[] = []): T {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_VARIABLE_PATTERN);
+    if (whole) {
+      const found = lookupVariable(vars, whole[1]);
+      return (found.defined ? found.value : value) as T;
+    }
+    return value.replace(VARIABLE_PATTERN, (placeholder, name) => {
+      const found = lookupVariable(vars, name);
+      if (!found.defined) return placeholder;
+      return typeof found.value === 'object' && found.value !== null ? JSON.stringify(found.value) : String(found.value ?? '');
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(item => substituteVariables(item, vars));
+    return (items.every((item, index) => item === value[index]) ? value : items) as T;
+  }
+  if (value && typeof value === 'object') {
+    let changed = false;
+    const entries = Object.entries(value).map(([key, item]) => {
+      const substituted = skip.includes(key) ? item : substituteVariables(item, vars);
+      changed ||= substituted !== item;
+      return [key, substituted];
+    });
+    // Unchanged values keep their identity, so callers can tell whether anything was substituted
+    return (changed ? Object.fromEntries(entries) : value) as T;
+  }
+  return value;
+}
+
+/** "/pattern/flags" or a bare pattern */
+export function toRegExp(pattern: string) {
+  const literal = pattern.match(/^\/(.+)\/([dgimsuy]*)$/s);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+/**
+ * The part of a captured value to store: with a pattern, its first capture group (or the whole match)
+ */
+export function extractValue(value: unknown, pattern?: string): unknown {
+  if (pattern === undefined) {
+    return value;
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  const regex = toRegExp(pattern);
+  const match = text.match(regex);
+  if (!match) {
+    throw new Error(`Pattern ${regex} did not match ${JSON.stringify(text)}`);
+  }
+  return match[1] ?? match[0];
+}
+
+function lookupVariable(vars: Record<string, unknown>, name: string): { defined: boolean; value?: unknown } {
+  const [root, ...fields] = name.split('.');
+  if (root === 'params' || !Object.prototype.hasOwnProperty.call(vars, root)) {
+    return { defined: false };
+  }
+  let value = vars[root];
+  for (const field of fields) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, field)) {
+      return { defined: false };
+    }
+    value = (value as Record<string, unknown>)[field];
+  }
+  return { defined: true, value };
+}
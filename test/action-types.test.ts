@@ -0,0 +1,11 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+describe('action-types.d.ts', () => {
+  it('matches src/actions/types.ts (regenerate it with "npm run build:action-types")', () => {
+    const read = (file: string) => fs.readFileSync(path.join(__dirname, '..', file), 'utf-8');
+    assert.equal(read('.playwright-mcp/action-types.d.ts'), read('src/actions/types.ts'));
+  });
+});
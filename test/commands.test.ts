@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseCommand, resolveDefaults, runCommand } from '../src/commands';
+import { commandRun } from './fakes';
+
+describe('command timeouts', () => {
+  it('passes a command\'s timeout to its own Playwright calls only', async () => {
+    const { page, run } = commandRun();
+
+    await runCommand(run, parseCommand({ type: 'get_text', selector: '#first', timeout: 1000 }), 1);
+    await runCommand(run, parseCommand({ type: 'get_text', selector: '#second' }), 2);
+
+    assert.deepEqual(page.timeouts, [1000, undefined]);
+  });
+
+  it('applies the run-wide default to commands without a timeout, also after a failed one', async () => {
+    const { page, run } = commandRun(resolveDefaults({ timeout: 2000 }, 'stop'));
+
+    const failed = await runCommand(run, parseCommand({ type: 'get_text', selector: '#throw', timeout: 1000 }), 1);
+    assert.equal(failed.success, false);
+
+    await runCommand(run, parseCommand({ type: 'get_text', selector: '#defaulted' }), 2);
+    assert.deepEqual(page.timeouts, [1000, 2000]);
+  });
+
+  it('gives nested commands without a timeout the block\'s', async () => {
+    const { page, run } = commandRun(resolveDefaults({ timeout: 2000 }, 'stop'));
+    const block = parseCommand({
+      type: 'repeat',
+      times: 1,
+      timeout: 4000,
+      commands: [
+        { type: 'get_text', selector: '#inner', timeout: 1000 },
+        { type: 'get_text', selector: '#after-inner' }
+      ]
+    });
+
+    const result = await runCommand(run, block, 1);
+    assert.equal(result.success, true);
+    assert.deepEqual(page.timeouts, [1000, 4000]);
+  });
+});
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Page } from 'playwright';
+
+import { parseCommand, runCommand } from '../src/commands';
+import { checkCondition, conditionSchema } from '../src/control-flow';
+import type { Condition } from '../src/control-flow';
+import { commandRun, fakePage } from './fakes';
+
+describe('checkCondition', () => {
+  const page = fakePage();
+  page.visible = new Set(['#banner', 'Welcome']);
+  page.currentUrl = 'https://shop.example.com/checkout?step=2';
+  const check = (condition: Condition) => checkCondition(condition, page as unknown as Page);
+
+  it('checks visible, hidden, text and url', async () => {
+    assert.equal(await check({ visible: '#banner' }), true);
+    assert.equal(await check({ visible: '#missing' }), false);
+    assert.equal(await check({ hidden: '#missing' }), true);
+    assert.equal(await check({ hidden: '#banner' }), false);
+    assert.equal(await check({ text: 'Welcome' }), true);
+    assert.equal(await check({ url: '**/checkout*' }), true);
+    assert.equal(await check({ url: '/step=\\d/' }), true);
+    assert.equal(await check({ url: '**/cart' }), false);
+  });
+
+  it('requires every check given in one condition', async () => {
+    assert.equal(await check({ visible: '#banner', text: 'Welcome' }), true);
+    assert.equal(await check({ visible: '#banner', text: 'Goodbye' }), false);
+  });
+
+  it('combines conditions with not, all and any', async () => {
+    assert.equal(await check({ not: { visible: '#missing' } }), true);
+    assert.equal(await check({ not: { visible: '#banner' } }), false);
+    assert.equal(await check({ all: [{ visible: '#banner' }, { text: 'Welcome' }] }), true);
+    assert.equal(await check({ all: [{ visible: '#banner' }, { text: 'Goodbye' }] }), false);
+    assert.equal(await check({ any: [{ visible: '#missing' }, { text: 'Welcome' }] }), true);
+    assert.equal(await check({ any: [{ visible: '#missing' }, { text: 'Goodbye' }] }), false);
+    assert.equal(await check({ any: [{ not: { all: [{ visible: '#banner' }, { visible: '#missing' }] } }] }), true);
+  });
+
+  it('rejects a condition without a check', () => {
+    assert.equal(conditionSchema.safeParse({ timeout: 100 }).success, false);
+    assert.equal(conditionSchema.safeParse({ not: {} }).success, false);
+    assert.equal(conditionSchema.safeParse({ visible: '#a', colour: 'red' }).success, false);
+  });
+});
+
+describe('flow commands', () => {
+  it('runs the if or else branch', async () => {
+    const { page, run } = commandRun();
+    page.visible.add('#banner');
+    const command = (selector: string) => parseCommand({
+      type: 'if',
+      condition: { visible: selector },
+      commands: [{ type: 'evaluate', script: 'then' }],
+      else: [{ type: 'evaluate', script: 'else' }]
+    });
+
+    const shown = await runCommand(run, command('#banner'), 1);
+    const missing = await runCommand(run, command('#missing'), 2);
+    assert.deepEqual([shown.result, missing.result], [{ condition: true, branch: 'then' }, { condition: false, branch: 'else' }]);
+    assert.deepEqual(page.evaluated, ['then', 'else']);
+    assert.deepEqual(missing.steps?.map(step => step.step), ['2.1']);
+  });
+
+  it('loops while the condition holds', async () => {
+    const { page, run } = commandRun();
+    page.visible.add('#more');
+    page.onEvaluate = () => {
+      if (page.evaluated.length === 3) page.visible.delete('#more');
+      return undefined;
+    };
+    const result = await runCommand(run, parseCommand({
+      type: 'while',
+      condition: { visible: '#more' },
+      commands: [{ type: 'evaluate', script: 'load more {{index}}' }]
+    }), 1);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.result, { iterations: 3 });
+    assert.deepEqual(page.evaluated, ['load more 1', 'load more 2', 'load more 3']);
+    assert.deepEqual(run.state.vars, {});
+  });
+
+  it('fails a while loop whose condition still holds after max iterations', async () => {
+    const { page, run } = commandRun();
+    page.visible.add('#more');
+    const result = await runCommand(run, parseCommand({
+      type: 'while',
+      condition: { visible: '#more' },
+      max: 2,
+      commands: [{ type: 'evaluate', script: 'load more' }]
+    }), 1);
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /Condition still holds after 2 iteration\(s\)/);
+    assert.equal(page.evaluated.length, 2);
+  });
+
+  it('stops a repeat loop once until holds', async () => {
+    const { page, run } = commandRun();
+    page.onEvaluate = script => {
+      if (script === 'step 2') page.visible.add('#done');
+      return undefined;
+    };
+    const result = await runCommand(run, parseCommand({
+      type: 'repeat',
+      times: 5,
+      until: { visible: '#done' },
+      commands: [{ type: 'evaluate', script: 'step {{index}}' }]
+    }), 1);
+
+    assert.deepEqual(result.result, { iterations: 2, stoppedEarly: true });
+  });
+
+  it('runs for_each with the item variable and restores what it shadowed', async () => {
+    const { page, run } = commandRun();
+    run.state.vars.item = 'outer';
+    await runCommand(run, parseCommand({
+      type: 'for_each',
+      items: ['a', 'b'],
+      commands: [{ type: 'evaluate', script: '{{index}}: {{item}}' }]
+    }), 1);
+
+    assert.deepEqual(page.evaluated, ['1: a', '2: b']);
+    assert.deepEqual(run.state.vars, { item: 'outer' });
+  });
+
+  it('retries a failing block and reports the last failure', async () => {
+    const { page, run } = commandRun();
+    const result = await runCommand(run, parseCommand({
+      type: 'retry',
+      attempts: 2,
+      delay: 0,
+      commands: [{ type: 'evaluate', script: 'throw now' }]
+    }), 4);
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /^Failed after 2 attempt\(s\): Step 4\.2\.1 \(evaluate\) failed: throw now failed/);
+    assert.equal(page.evaluated.length, 2);
+  });
+});
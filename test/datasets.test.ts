@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { loadDataset, parseCsv } from '../src/datasets';
+import { tempWorkspace } from './fakes';
+
+describe('parseCsv', () => {
+  it('maps each row to the header\'s columns', () => {
+    assert.deepEqual(parseCsv('user,password\nalice,secret\nbob,hunter2\n'), [
+      { user: 'alice', password: 'secret' },
+      { user: 'bob', password: 'hunter2' }
+    ]);
+  });
+
+  it('reads commas, escaped quotes and line breaks inside quoted fields', () => {
+    assert.deepEqual(parseCsv('name,note\n"Smith, Jane","say ""hi""\nthen leave"\n'), [
+      { name: 'Smith, Jane', note: 'say "hi"\nthen leave' }
+    ]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and a missing final newline', () => {
+    assert.deepEqual(parseCsv('\uFEFFa,b\r\n1,2\r\n3,4'), [{ a: '1', b: '2' }, { a: '3', b: '4' }]);
+  });
+
+  it('skips blank lines and leaves empty cells out so defaults apply', () => {
+    assert.deepEqual(parseCsv('a,b\n\n1,\n\r\n,2\n\n'), [{ a: '1' }, { b: '2' }]);
+  });
+
+  it('trims column names and ignores columns without a name', () => {
+    assert.deepEqual(parseCsv(' a ,,b\n1,x,2\n'), [{ a: '1', b: '2' }]);
+  });
+
+  it('reports a row with the wrong number of fields by its line', () => {
+    assert.throws(() => parseCsv('a,b\n1,2\n"multi\nline",2,3\n', 'users.csv'),
+      /Dataset users\.csv line 3: expected 2 fields \(a, b\), got 3/);
+  });
+
+  it('rejects an unclosed quote, an empty file and duplicate columns', () => {
+    assert.throws(() => parseCsv('a\n"open\n', 'x.csv'), /x\.csv line 2: quoted field is not closed/);
+    assert.throws(() => parseCsv('\n\n', 'x.csv'), /x\.csv is empty/);
+    assert.throws(() => parseCsv('a,b,a\n1,2,3', 'x.csv'), /has the column "a" twice/);
+  });
+});
+
+describe('loadDataset', () => {
+  const baseDir = tempWorkspace({
+    '.playwright-mcp/data/users.csv': 'user,age\nalice,30\n',
+    '.playwright-mcp/data/users.json': '[{ "user": "alice", "age": 30 }]',
+    'fixtures/list.json': '{ "user": "alice" }',
+    '.playwright-mcp/data/users.txt': 'alice'
+  });
+
+  it('reads CSV and JSON files from .playwright-mcp/data/', () => {
+    assert.deepEqual(loadDataset(baseDir, 'users.csv'), {
+      source: '.playwright-mcp/data/users.csv',
+      format: 'csv',
+      rows: [{ user: 'alice', age: '30' }]
+    });
+    assert.deepEqual(loadDataset(baseDir, 'users.json').rows, [{ user: 'alice', age: 30 }]);
+  });
+
+  it('takes inline rows as given', () => {
+    assert.deepEqual(loadDataset(baseDir, [{ user: 'bob' }]), { source: 'inline', format: 'inline', rows: [{ user: 'bob' }] });
+  });
+
+  it('rejects files that do not hold rows', () => {
+    assert.throws(() => loadDataset(baseDir, 'fixtures/list.json'), /must hold an array of objects/);
+    assert.throws(() => loadDataset(baseDir, 'users.txt'), /Unsupported dataset format "\.txt"/);
+    assert.throws(() => loadDataset(baseDir, [{ user: 'bob' }, 'carol'] as never), /Row 2 of inline dataset must be an object/);
+    assert.throws(() => loadDataset(baseDir, 'missing.csv'), /Dataset file not found: missing\.csv/);
+  });
+});
@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+import executeShortcut from '../src/actions/execute-shortcut';
+import { actionContext, fakePage, fakeSession, tempWorkspace } from './fakes';
+
+function runShortcut(yaml: string) {
+  const page = fakePage();
+  const baseDir = tempWorkspace({ '.playwright-mcp/shortcuts/hooked.yaml': yaml });
+  const ctx = actionContext({ shortcutPath: 'hooked.yaml' }, fakeSession(page), baseDir);
+  return { page, result: Promise.resolve(executeShortcut.run(ctx, {} as never)) };
+}
+
+function output(result: Awaited<ReturnType<typeof executeShortcut.run>>) {
+  return JSON.parse((result as { content: Array<{ text: string }> }).content[0].text);
+}
+
+describe('shortcut hooks', () => {
+  it('runs before, the commands and after in order', async () => {
+    const { page, result } = runShortcut(`
+before:
+  - { type: evaluate, script: "before" }
+commands:
+  - { type: evaluate, script: "command" }
+afterFailure:
+  - { type: evaluate, script: "afterFailure" }
+after:
+  - { type: evaluate, script: "after" }
+`);
+    const out = output(await result);
+    assert.equal(out.success, true);
+    assert.deepEqual(page.evaluated, ['before', 'command', 'after']);
+    assert.deepEqual(Object.keys(out.hooks), ['before', 'after']);
+  });
+
+  it('skips the commands when before fails, then runs afterFailure and after', async () => {
+    const { page, result } = runShortcut(`
+before:
+  - { type: evaluate, script: "throw in before" }
+  - { type: evaluate, script: "before 2" }
+commands:
+  - { type: evaluate, script: "command" }
+afterFailure:
+  - { type: evaluate, script: "afterFailure" }
+after:
+  - { type: evaluate, script: "after" }
+`);
+    await assert.rejects(result, /before hook step 1 \(evaluate\) failed: throw in before failed[\s\S]*Hooks: before 0\/1 passed, afterFailure 1\/1 passed, after 1\/1 passed/);
+    assert.deepEqual(page.evaluated, ['throw in before', 'afterFailure', 'after']);
+  });
+
+  it('runs every after step and reports its failure', async () => {
+    const { page, result } = runShortcut(`
+commands:
+  - { type: evaluate, script: "command" }
+after:
+  - { type: evaluate, script: "throw in after" }
+  - { type: evaluate, script: "after 2" }
+`);
+    await assert.rejects(result, /after hook step 1 \(evaluate\) failed/);
+    assert.deepEqual(page.evaluated, ['command', 'throw in after', 'after 2']);
+  });
+
+  it('counts a cleanup step with onError: continue as failed without failing the run', async () => {
+    const { page, result } = runShortcut(`
+commands:
+  - { type: evaluate, script: "throw in command" }
+afterFailure:
+  - { type: evaluate, script: "throw in afterFailure", onError: continue }
+after:
+  - { type: evaluate, script: "throw in after", onError: continue }
+  - { type: evaluate, script: "after 2" }
+`);
+    // Only the command's failure is reported; the tolerated cleanup failures are not
+    await assert.rejects(result, error => {
+      assert.match((error as Error).message, /step 1 \(evaluate\) failed: throw in command failed/);
+      assert.doesNotMatch((error as Error).message, /hook also failed/);
+      return true;
+    });
+    assert.deepEqual(page.evaluated, ['throw in command', 'throw in afterFailure', 'throw in after', 'after 2']);
+  });
+
+  it('reports a tolerated after failure in failedSteps', async () => {
+    const { result } = runShortcut(`
+commands:
+  - { type: evaluate, script: "command" }
+after:
+  - { type: evaluate, script: "throw in after", onError: continue }
+`);
+    const out = output(await result);
+    assert.equal(out.failedSteps, 1);
+    assert.equal(out.success, false);
+    assert.equal(out.hooks.after[0].success, false);
+  });
+});
+
+describe('shortcut mocks', () => {
+  it('removes its own mocks and keeps a session mock with the same id', async () => {
+    const page = fakePage();
+    const session = fakeSession(page);
+    const sessionRule = { id: 'orders', url: '**/api/orders', status: 200, hits: 0 };
+    session.mockRules.push(sessionRule);
+    const baseDir = tempWorkspace({ '.playwright-mcp/shortcuts/mocked.yaml': `
+mocks:
+  - { id: orders, url: "**/api/orders", status: 500 }
+commands:
+  - { type: evaluate, script: "command" }
+` });
+    page.onEvaluate = () => session.mockRules.map(rule => rule.status);
+
+    const out = output(await executeShortcut.run(actionContext({ shortcutPath: 'mocked.yaml' }, session, baseDir), {} as never));
+    assert.equal(out.success, true);
+    // Both rules are active during the run, the shortcut's taking precedence
+    assert.deepEqual(out.results[0].result, [200, 500]);
+    assert.deepEqual(session.mockRules, [sessionRule]);
+  });
+});
+
+describe('dataset runs', () => {
+  const shortcut = `
+params:
+  item: { type: string, required: true }
+  count: { type: number, default: 1 }
+commands:
+  - { type: evaluate, script: "{{params.item}} x{{params.count}}", description: "Order the item" }
+`;
+
+  it('runs every row and saves each as a test result', async () => {
+    const page = fakePage();
+    const baseDir = tempWorkspace({
+      '.playwright-mcp/shortcuts/order.yaml': shortcut,
+      '.playwright-mcp/data/orders.csv': 'item,count\nbook,2\nthrow,\npen,many\n'
+    });
+    const ctx = actionContext({ shortcutPath: 'order.yaml', dataset: 'orders.csv', testResults: true }, fakeSession(page), baseDir);
+    const out = output(await executeShortcut.run(ctx, {} as never));
+
+    assert.equal(out.success, false);
+    assert.deepEqual(out.dataset, { source: '.playwright-mcp/data/orders.csv', rows: 3, passed: 1, failed: 2 });
+    assert.deepEqual(out.matrix.map((entry: { status: string }) => entry.status), ['PASSED', 'FAILED', 'FAILED']);
+    assert.deepEqual(out.matrix[0].params, { item: 'book', count: 2 });
+    assert.match(out.matrix[2].error, /count: expected a number, got "many"/);
+    // The bad row never reached the page
+    assert.deepEqual(page.evaluated, ['book x2', 'throw x1']);
+
+    const [passed, failed, invalid] = out.matrix.map((entry: { testResult: string }) =>
+      JSON.parse(fs.readFileSync(path.join(baseDir, entry.testResult), 'utf-8')));
+    assert.equal(passed.testCase.id, 'order-row-1');
+    assert.deepEqual(passed.summary, {
+      status: 'PASSED',
+      totalSteps: 1,
+      executedSteps: 1,
+      passedSteps: 1,
+      failedSteps: 0,
+      duration: passed.summary.duration,
+      browser: 'chromium'
+    });
+    assert.deepEqual(passed.testData, { item: 'book', count: '2' });
+    assert.deepEqual(passed.steps.map((step: { description: string; status: string }) => [step.description, step.status]), [['Order the item', 'PASSED']]);
+    assert.equal(failed.summary.status, 'FAILED');
+    assert.match(failed.steps[0].error, /throw x1 failed/);
+    // A row that failed before its first step gets a step saying why
+    assert.deepEqual(invalid.steps.map((step: { action: string; status: string }) => [step.action, step.status]), [['load', 'FAILED']]);
+  });
+});
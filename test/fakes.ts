@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { Page } from 'playwright';
+
+import type { ActionContext, ActionSession } from '../src/actions/types';
+import { createCommandRun } from '../src/commands';
+import type { CommandDefaults } from '../src/commands';
+
+/**
+ * A stand-in for a Playwright page: evaluate() records each script and throws for scripts starting with "throw".
+ * Elements and text in `visible` are the ones shown; textContent() records the timeout it was given and
+ * throws for selectors starting with "#throw".
+ */
+export function fakePage() {
+  const shown = (key: string) => ({
+    first: () => ({ isVisible: async () => page.visible.has(key) }),
+    async textContent(options?: { timeout?: number }) {
+      page.timeouts.push(options?.timeout);
+      if (key.startsWith('#throw')) {
+        throw new Error(`${key} not found`);
+      }
+      return key;
+    }
+  });
+  const page = {
+    evaluated: [] as string[],
+    timeouts: [] as Array<number | undefined>,
+    visible: new Set<string>(),
+    currentUrl: 'about:blank',
+    /** Called for each evaluated script; what it returns (if anything) is the script's result. */
+    onEvaluate: undefined as ((script: string) => unknown) | undefined,
+    mainFrame: () => undefined,
+    url: () => page.currentUrl,
+    locator: (selector: string) => shown(selector),
+    getByText: (text: string) => shown(text),
+    on() {},
+    off() {},
+    async waitForTimeout() {},
+    async evaluate(script: string) {
+      page.evaluated.push(script);
+      if (script.startsWith('throw')) {
+        throw new Error(`${script} failed`);
+      }
+      const result = page.onEvaluate?.(script);
+      return result === undefined ? script : result;
+    }
+  };
+  return page;
+}
+
+export type FakePage = ReturnType<typeof fakePage>;
+
+export function fakeSession(page: FakePage = fakePage()): ActionSession {
+  return {
+    name: 'default',
+    browserName: 'chromium',
+    page,
+    context: { browser: () => null, async route() {}, async unroute() {} },
+    mockRules: [],
+    downloads: [],
+    dialogs: [],
+    dialogPolicy: { action: 'accept' }
+  } as unknown as ActionSession;
+}
+
+/** A browser-session call or shortcut run on a fake page, for running commands directly */
+export function commandRun(defaults: CommandDefaults = { onError: 'stop' }) {
+  const page = fakePage();
+  const run = createCommandRun({
+    page: page as unknown as Page,
+    session: fakeSession(page),
+    baseDir: process.cwd(),
+    logger: () => {},
+    interpolateSecrets: text => text,
+    defaults
+  });
+  return { page, run };
+}
+
+const workspaces: string[] = [];
+process.on('exit', () => workspaces.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+/** A base directory with the given files, e.g. { '.playwright-mcp/shortcuts/a.yaml': '...' }, removed on exit */
+export function tempWorkspace(files: Record<string, string> = {}) {
+  const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playwrightium-test-'));
+  workspaces.push(baseDir);
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(baseDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(baseDir, file), content);
+  }
+  return baseDir;
+}
+
+export function actionContext<TInput>(input: TInput, session: ActionSession, baseDir: string, logs: string[] = []) {
+  return {
+    input,
+    page: session.page,
+    session,
+    baseDir,
+    logger: (message: string) => {
+      logs.push(message);
+    },
+    interpolateSecrets: (text: string) => text,
+    env: {}
+  } as unknown as ActionContext<TInput>;
+}
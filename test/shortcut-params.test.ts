@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { coerceParams, parseParamSpecs, resolveParams, substituteParams } from '../src/shortcut-params';
+
+describe('coerceParams', () => {
+  const specs = parseParamSpecs({
+    name: 'string',
+    age: 'number',
+    admin: 'boolean',
+    tags: 'list'
+  });
+
+  it('converts text to the declared types', () => {
+    assert.deepEqual(coerceParams(specs, { name: '42', age: ' 42 ', admin: 'TRUE', tags: 'a, b,c' }), {
+      name: '42',
+      age: 42,
+      admin: true,
+      tags: ['a', 'b', 'c']
+    });
+    assert.deepEqual(coerceParams(specs, { admin: 'false', tags: '[1, "two"]' }), { admin: false, tags: [1, 'two'] });
+  });
+
+  it('leaves values that do not convert for resolveParams to report', () => {
+    const coerced = coerceParams(specs, { age: 'forty', admin: 'yes', tags: '[broken' });
+    assert.deepEqual(coerced, { age: 'forty', admin: 'yes', tags: '[broken' });
+    assert.throws(() => resolveParams(specs, coerced), error => {
+      const message = (error as Error).message;
+      assert.match(message, /- age: expected a number, got "forty"/);
+      assert.match(message, /- admin: expected a boolean, got "yes"/);
+      assert.match(message, /- tags: expected a list, got "\[broken"/);
+      return true;
+    });
+  });
+
+  it('leaves non-text values and undeclared params alone', () => {
+    assert.deepEqual(coerceParams(specs, { age: 7, extra: '1' }), { age: 7, extra: '1' });
+  });
+});
+
+describe('parseParamSpecs', () => {
+  it('reads a type name as short for { type }', () => {
+    assert.deepEqual(parseParamSpecs({ term: 'string', limit: { type: 'number', default: 10 } }), {
+      term: { type: 'string' },
+      limit: { type: 'number', default: 10 }
+    });
+  });
+
+  it('defaults the type to string', () => {
+    assert.deepEqual(parseParamSpecs({ term: { required: true } }), { term: { type: 'string', required: true } });
+    assert.deepEqual(parseParamSpecs(undefined), {});
+  });
+
+  it('reports every invalid param', () => {
+    assert.throws(() => parseParamSpecs({ 'bad name': 'string', limit: { type: 'number', default: 'ten' }, kind: 'float', extra: { type: 'string', unknown: 1 } }), error => {
+      const message = (error as Error).message;
+      assert.match(message, /- bad name: param names may only contain letters, digits, _ and -/);
+      assert.match(message, /- limit\.default: expected a number, got "ten"/);
+      assert.match(message, /- kind\.type: Invalid enum value/);
+      assert.match(message, /- extra: Unrecognized key\(s\) in object: 'unknown'/);
+      return true;
+    });
+    assert.throws(() => parseParamSpecs(['term']), /must map each param name/);
+  });
+});
+
+describe('resolveParams', () => {
+  const specs = parseParamSpecs({
+    term: { type: 'string', required: true, description: 'Text to search for' },
+    limit: { type: 'number', default: 10 },
+    sort: { type: 'string', enum: ['price', 'name'] },
+    products: 'list'
+  });
+
+  it('fills in defaults and leaves optional params without a value undefined', () => {
+    assert.deepEqual(resolveParams(specs, { term: 'shoes' }), { term: 'shoes', limit: 10, sort: undefined, products: undefined });
+    assert.deepEqual(resolveParams(specs, { term: 'shoes', limit: 3, sort: 'name', products: ['a'] }),
+      { term: 'shoes', limit: 3, sort: 'name', products: ['a'] });
+  });
+
+  it('reports unknown, missing, mistyped and disallowed values together', () => {
+    assert.throws(() => resolveParams(specs, { limit: '3', sort: 'date', products: 'a', colour: 'red' }), error => {
+      const message = (error as Error).message;
+      assert.match(message, /- colour: unknown param \(declared: term, limit, sort, products\)/);
+      assert.match(message, /- term: required string param is missing \(Text to search for\)/);
+      assert.match(message, /- limit: expected a number, got "3"/);
+      assert.match(message, /- sort: must be one of "price", "name", got "date"/);
+      assert.match(message, /- products: expected a list, got "a"/);
+      return true;
+    });
+  });
+
+  it('rejects params given to a shortcut that declares none', () => {
+    assert.throws(() => resolveParams({}, { term: 'x' }), /term: unknown param \(the shortcut declares no params\)/);
+  });
+});
+
+describe('substituteParams', () => {
+  const params = { term: 'shoes', limit: 10, products: ['a', 'b'], sort: undefined };
+
+  it('keeps the type of a value that is only a placeholder', () => {
+    assert.deepEqual(substituteParams({ value: '{{params.limit}}', items: '{{ params.products }}' }, params), { value: 10, items: ['a', 'b'] });
+  });
+
+  it('writes values into text, lists as JSON and unset params as nothing', () => {
+    assert.equal(substituteParams('Find {{params.term}} x{{params.limit}} in {{params.products}}{{params.sort}}', params), 'Find shoes x10 in ["a","b"]');
+  });
+
+  it('leaves .env placeholders and variables alone and rejects undeclared params', () => {
+    assert.equal(substituteParams('${{params.term}} {{item}}', params), '${{params.term}} {{item}}');
+    assert.throws(() => substituteParams(['{{params.missing}}'], params), /Unknown param "missing"/);
+  });
+});
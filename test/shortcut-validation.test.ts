@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+import executeScript from '../src/actions/execute-script';
+import executeShortcut from '../src/actions/execute-shortcut';
+import { registerCommand } from '../src/commands';
+import { SHORTCUT_SCHEMA_FILE, shortcutJsonSchema } from '../src/shortcut-validation';
+
+// Registered in the order the server loads the built-in actions (by file name)
+for (const action of [executeScript, executeShortcut]) {
+  action.commands?.forEach(registerCommand);
+}
+
+describe('shortcutJsonSchema', () => {
+  it('matches the published schema (regenerate it with "playwrightium schema")', () => {
+    const published = fs.readFileSync(path.join(__dirname, '..', '.playwright-mcp', SHORTCUT_SCHEMA_FILE), 'utf-8');
+    assert.deepEqual(shortcutJsonSchema(), JSON.parse(published));
+  });
+});
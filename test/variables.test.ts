@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseCommand, runCommand } from '../src/commands';
+import { extractValue, substituteVariables, toRegExp, variableName } from '../src/variables';
+import { commandRun } from './fakes';
+
+describe('substituteVariables', () => {
+  const vars = { user: { name: 'Ada', roles: ['admin'] }, count: 3, empty: null };
+
+  it('keeps the type of a value that is only a placeholder', () => {
+    assert.deepEqual(substituteVariables({ value: '{{count}}', who: '{{ user.name }}', roles: '{{user.roles}}' }, vars),
+      { value: 3, who: 'Ada', roles: ['admin'] });
+  });
+
+  it('writes values into text, objects as JSON and null as nothing', () => {
+    assert.equal(substituteVariables('{{user.name}} has {{count}} items: {{user.roles}}{{empty}}', vars), 'Ada has 3 items: ["admin"]');
+  });
+
+  it('leaves unknown variables, .env placeholders and params alone', () => {
+    const text = '{{missing}} {{user.age}} ${{TOKEN}} {{params.term}}';
+    assert.equal(substituteVariables(text, vars), text);
+  });
+
+  it('skips nested blocks and keeps unchanged values as they are', () => {
+    const command = { type: 'if', text: '{{count}}', commands: [{ value: '{{count}}' }] };
+    assert.deepEqual(substituteVariables(command, vars, ['commands']), { type: 'if', text: 3, commands: [{ value: '{{count}}' }] });
+    const untouched = { type: 'click', selector: '#go', list: ['a'] };
+    assert.equal(substituteVariables(untouched, vars), untouched);
+  });
+});
+
+describe('extractValue', () => {
+  it('stores the first capture group, or the whole match without one', () => {
+    assert.equal(extractValue('Order #1234 placed', '#(\\d+)'), '1234');
+    assert.equal(extractValue('Order #1234 placed', '\\d+'), '1234');
+    assert.equal(extractValue('ORDER 7', '/order (\\d)/i'), '7');
+  });
+
+  it('returns the value as is without a pattern and matches non-text values as JSON', () => {
+    assert.deepEqual(extractValue({ id: 5 }), { id: 5 });
+    assert.equal(extractValue({ id: 5 }, '"id":(\\d+)'), '5');
+  });
+
+  it('fails when the pattern does not match', () => {
+    assert.throws(() => extractValue('no digits', '\\d+'), /Pattern \/\\d\+\/ did not match "no digits"/);
+  });
+
+  it('reads /pattern/flags and bare patterns', () => {
+    assert.deepEqual(toRegExp('/a.b/si'), /a.b/si);
+    assert.deepEqual(toRegExp('a/b'), /a\/b/);
+  });
+});
+
+describe('saveAs', () => {
+  it('stores a command\'s value for later commands', async () => {
+    const { page, run } = commandRun();
+    page.onEvaluate = script => (script === 'user' ? { name: 'Ada' } : undefined);
+
+    const saved = await runCommand(run, parseCommand({ type: 'evaluate', script: 'Order #1234 placed', saveAs: 'order', pattern: '#(\\d+)' }), 1);
+    await runCommand(run, parseCommand({ type: 'evaluate', script: 'user', saveAs: 'user' }), 2);
+    await runCommand(run, parseCommand({ type: 'evaluate', script: 'open {{order}} for {{user.name}}' }), 3);
+
+    assert.deepEqual(saved.saved, { order: '1234' });
+    assert.deepEqual(run.state.vars, { order: '1234', user: { name: 'Ada' } });
+    assert.equal(page.evaluated[2], 'open 1234 for Ada');
+  });
+
+  it('fails the step when the pattern does not match', async () => {
+    const { run } = commandRun();
+    const result = await runCommand(run, parseCommand({ type: 'evaluate', script: 'nothing here', saveAs: 'order', pattern: '#(\\d+)' }), 1);
+    assert.equal(result.success, false);
+    assert.match(result.error!, /did not match "nothing here"/);
+    assert.deepEqual(run.state.vars, {});
+  });
+
+  it('rejects a pattern without saveAs, an invalid pattern and reserved names', () => {
+    assert.throws(() => parseCommand({ type: 'evaluate', script: 'x', pattern: '\\d' }), /pattern needs saveAs/);
+    assert.throws(() => parseCommand({ type: 'evaluate', script: 'x', saveAs: 'n', pattern: '(' }), /invalid pattern/);
+    assert.equal(variableName.safeParse('params').success, false);
+    assert.equal(variableName.safeParse('1st').success, false);
+  });
+});